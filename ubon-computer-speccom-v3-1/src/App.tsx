@@ -7,33 +7,59 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
+import { computeTotals, fromSatang, installment, lineAmount, percentOf, toSatang, type PaymentPlan, type Pricing, type Totals, type VatMode } from "@/lib/pricing";
+import { promptPayPayload, promptPayTarget, qrSvg } from "@/lib/promptpay";
+import { matchBundle } from "@/lib/promotions";
 import { toast } from "sonner";
 import { motion } from "framer-motion";
 import {
   Plus, Trash2, Edit, HardDrive, Cpu, MemoryStick,
   Power, Monitor as MonitorIcon, Wrench, CaseSensitive,
   Download, FileUp, Save, ListChecks, ShoppingCart, CheckCircle2,
-  AlertTriangle, Sparkles, X
+  AlertTriangle, Sparkles, X, FolderOpen, Copy, Receipt, RefreshCw, Wand2, ScanBarcode,
+  Fan, Keyboard, Mouse, Wifi, BatteryCharging, Headphones, Package, Tags, History, Undo2, Redo2, Link2, Store, FileText, BadgePercent, CreditCard
 } from "lucide-react";
 import * as XLSX from "xlsx";
 
 /**
  * Ubon Computer Spec V.3.1 — Single-file demo
- * - Inventory (CRUD) + Excel import
+ * - Inventory (CRUD) + Excel import / export (round-trips)
+ * - Import preview: new / updated / unchanged / invalid rows, upsert by id → SKU → name
+ * - Import column mapping: pick sheets, map columns, category per sheet, saved supplier profiles
+ * - SKU / barcode per product (unique) + scan mode for keyboard-wedge barcode scanners
+ * - Category registry: user-defined categories with attribute schemas (editor, import, filters, pickers)
+ * - Inventory audit log: who / when / before → after per change (manual, import, sale), undo + restore deleted; newest 2,000 entries kept
  * - Builder with Required categories, Attribute Filters, Smart Sync
+ * - Undo / redo for builder selections (Ctrl+Z / Ctrl+Shift+Z) with labelled history steps
  * - Compatibility checks + PSU wattage estimate
  * - Add-ons (Monitor/Software/SSD) with quantity
- * - Summary with Discount/VAT/Cost/Profit + copy/print
+ * - Summary with Discount/VAT/Cost/Profit + copy/print; VAT-inclusive or -exclusive prices, money math in satang (lib/pricing)
+ * - Price tiers (retail / member / dealer) per product; tier per build reprices Summary, documents and margin
+ * - Installment plans (months, interest / fee, who absorbs it, minimum): monthly payment in Summary, copy text and quotation
+ * - Promotions: per-line and bundle discounts by category / attribute, date range, priority, stacking, coupon codes
+ * - PromptPay QR (EMVCo) with the exact grand total: on screen in Summary, on printed quotations and receipts
+ * - Thai quotation (ใบเสนอราคา): running number, customer details, validity, VAT, bahttext, signatures; shop settings tab
+ * - Tax invoice / receipt for a closed sale: gapless yearly numbering, VAT breakdown, original/copy, reprint and void
+ * - Shareable read-only build links (#share=…): customer view without cost/profit, staff can import back at live prices
  * - Search & Sort + Reset spec
+ * - Saved builds library (customer / note) — open, duplicate, rename, delete
+ * - Close sale: stock validation + decrement, sales history
+ * - Low-stock alerts: reorder point / target per product, out / low dashboard, reorder report by supplier from sales velocity
+ * - Snapshot drift: builds vs live inventory, accept updates per line or all
+ * - Multi-item base categories with quantities (RAM kits, drives, GPUs, fans)
+ * - Compatibility rules as data (editable, stored with app state)
+ * - Physical fit: GPU length, cooler height, RAM / M.2 / SATA slots
+ * - PSU sizing: per-part breakdown, GPU transients, headroom, 80 Plus, PCIe connectors
+ * - Build generator: budget + use case (+ locked parts) → top compatible builds
+ * - Fix suggestions for compatibility errors (cheapest / closest-priced swap)
  */
 
 // ===== Categories =====
+// Built-in PC part categories: power sizing, the default rules and the generator know these by name.
+// The full list, including add-ons and user-defined categories, lives in the category registry.
 const BASE_CATEGORIES = ["CPU","Motherboard","GPU","RAM","Storage","PSU","Case","Cooler"] as const;
-const ADDON_CATEGORIES = ["Monitor","Software","SSD"] as const;
-const ALL_CATEGORIES = [...BASE_CATEGORIES, ...ADDON_CATEGORIES] as const;
-type BaseCategory = typeof BASE_CATEGORIES[number];
-type AddonCategory = typeof ADDON_CATEGORIES[number];
-type Category = typeof ALL_CATEGORIES[number];
+type BaseCategory = string;
+type Category = string;
 
 export type Product = {
   id: string;
@@ -42,15 +68,44 @@ export type Product = {
   price: number;
   stock: number;
   cost?: number;
+  memberPrice?: number;
+  dealerPrice?: number;
+  sku?: string;
+  barcode?: string;
+  supplier?: string;
+  reorderPoint?: number;   // blank = DEFAULT_REORDER_POINT
+  reorderTarget?: number;  // stock level to order back up to; blank = twice the reorder point
   attributes: Record<string, any>;
 };
 
 type AddonEntry = { id: string; product: Product; qty: number };
-type BuildState = { base: Partial<Record<BaseCategory, Product>>; addons: AddonEntry[] };
+type BaseEntry = { id: string; product: Product; qty: number };
+type BaseSelection = Partial<Record<BaseCategory, BaseEntry[]>>;
+type BuildState = { base: BaseSelection; addons: AddonEntry[] };
+type SavedBuild = { id: string; name: string; customer: string; note: string; createdAt: number; updatedAt: number; build: BuildState; tier?: PriceTier; coupons?: string[]; saleId?: string; soldAt?: number; quotation?: Quotation; linkPrices?: Record<string, number> };
 
 // ===== Utilities =====
+// Category names are user data: read them as own keys only, so a category called "constructor" or "toString" is just a name
+const own = <T,>(rec: Partial<Record<string, T>> | undefined, key: string): T | undefined => rec && Object.prototype.hasOwnProperty.call(rec, key) ? rec[key] : undefined;
+const baseEntries = (base: BaseSelection) => Object.entries(base).flatMap(([cat, entries]) => (entries || []).map(e => ({ cat, ...e })));
+const firstProduct = (base: BaseSelection, cat: BaseCategory): Product | undefined => own(base, cat)?.[0]?.product;
+const categoryQty = (base: BaseSelection, cat: BaseCategory) => (own(base, cat) || []).reduce((s,e)=>s+e.qty,0);
 const uid = () => Math.random().toString(36).slice(2, 10);
 const baht = (n: number) => n.toLocaleString("th-TH", { style: "currency", currency: "THB" });
+// `price` is the retail price; member / dealer prices are optional and fall back to retail when unset
+type PriceTier = "retail" | "member" | "dealer";
+const PRICE_TIERS: { id: PriceTier; label: string; field: "price" | "memberPrice" | "dealerPrice" }[] = [
+  { id: "retail", label: "ราคาปลีก", field: "price" },
+  { id: "member", label: "ราคาสมาชิก", field: "memberPrice" },
+  { id: "dealer", label: "ราคาดีลเลอร์", field: "dealerPrice" },
+];
+const tierLabel = (tier: PriceTier = "retail") => PRICE_TIERS.find(t => t.id === tier)?.label || tier;
+const tierPrice = (p: Product, tier: PriceTier = "retail") => {
+  const v = p[PRICE_TIERS.find(t => t.id === tier)?.field || "price"];
+  return typeof v === "number" ? v : p.price;
+};
+
+const dateTime = (ts: number) => new Date(ts).toLocaleString("th-TH", { dateStyle: "medium", timeStyle: "short" });
 
 type SortMode = 'default'|'priceAsc'|'priceDesc'|'nameAsc'|'stockDesc';
 function sortProducts<T extends { price:number; stock:number; name:string }>(arr: T[], mode: SortMode): T[] {
@@ -67,10 +122,25 @@ function sortProducts<T extends { price:number; stock:number; name:string }>(arr
 const STORAGE_KEYS = {
   inventory: "ubonspec.inventory.v3_1",
   build: "ubonspec.build.v3_1",
+  builds: "ubonspec.builds.v3_1",
+  activeBuild: "ubonspec.activebuild.v3_1",
+  sales: "ubonspec.sales.v3_1",
+  rules: "ubonspec.rules.v3_1",
+  power: "ubonspec.power.v3_1",
   pricing: "ubonspec.pricing.v3_1",
   required: "ubonspec.required.v3_1",
   filters: "ubonspec.filters.v3_1",
   smartSync: "ubonspec.smartsync.v3_1",
+  importProfiles: "ubonspec.importprofiles.v3_1",
+  scanMode: "ubonspec.scanmode.v3_1",
+  categories: "ubonspec.categories.v3_1",
+  audit: "ubonspec.audit.v3_1",
+  operator: "ubonspec.operator.v3_1",
+  shop: "ubonspec.shop.v3_1",
+  counters: "ubonspec.doccounters.v3_1",
+  documents: "ubonspec.documents.v3_1",
+  promotions: "ubonspec.promotions.v3_1",
+  paymentPlans: "ubonspec.paymentplans.v3_1",
 } as const;
 
 // ===== Demo Inventory =====
@@ -78,26 +148,26 @@ const DEMO_DATA: Product[] = [
   { id: uid(), name: "AMD Ryzen 5 7600", category: "CPU", price: 7490, stock: 8, cost: 6100, attributes: { socket: "AM5", tdp: 65 } },
   { id: uid(), name: "Intel Core i5-13400F", category: "CPU", price: 6990, stock: 12, cost: 5900, attributes: { socket: "LGA1700", tdp: 148 } },
 
-  { id: uid(), name: "ASUS TUF B650-PLUS", category: "Motherboard", price: 7290, stock: 6, cost: 6100, attributes: { socket: "AM5", ramType: "DDR5", formFactor: "ATX", pcieSlots: 2, storage: ["M.2 NVMe", "SATA"] } },
-  { id: uid(), name: "MSI PRO B760M-A", category: "Motherboard", price: 4990, stock: 9, cost: 4100, attributes: { socket: "LGA1700", ramType: "DDR5", formFactor: "mATX", pcieSlots: 2, storage: ["M.2 NVMe", "SATA"] } },
+  { id: uid(), name: "ASUS TUF B650-PLUS", category: "Motherboard", price: 7290, stock: 6, cost: 6100, attributes: { socket: "AM5", ramType: "DDR5", formFactor: "ATX", pcieSlots: 2, storage: ["M.2 NVMe", "SATA"], ramSlots: 4, m2Slots: 3, sataPorts: 4 } },
+  { id: uid(), name: "MSI PRO B760M-A", category: "Motherboard", price: 4990, stock: 9, cost: 4100, attributes: { socket: "LGA1700", ramType: "DDR5", formFactor: "mATX", pcieSlots: 2, storage: ["M.2 NVMe", "SATA"], ramSlots: 4, m2Slots: 2, sataPorts: 4 } },
 
-  { id: uid(), name: "NVIDIA RTX 4070 SUPER", category: "GPU", price: 19990, stock: 4, cost: 17500, attributes: { tdp: 220, interface: "PCIe" } },
-  { id: uid(), name: "MSI GTX 1660 SUPER", category: "GPU", price: 6990, stock: 5, cost: 6100, attributes: { tdp: 125, interface: "PCIe" } },
+  { id: uid(), name: "NVIDIA RTX 4070 SUPER", category: "GPU", price: 19990, stock: 4, cost: 17500, attributes: { tdp: 220, interface: "PCIe", gpuLengthMm: 267, pcie8Pin: 2 } },
+  { id: uid(), name: "MSI GTX 1660 SUPER", category: "GPU", price: 6990, stock: 5, cost: 6100, attributes: { tdp: 125, interface: "PCIe", gpuLengthMm: 226, pcie8Pin: 1 } },
 
-  { id: uid(), name: "Kingston Fury 16GB (2x8) 6000 DDR5", category: "RAM", price: 2190, stock: 15, cost: 1850, attributes: { type: "DDR5", sizeGB: 16 } },
-  { id: uid(), name: "Corsair Vengeance 32GB (2x16) 3200 DDR4", category: "RAM", price: 2690, stock: 10, cost: 2300, attributes: { type: "DDR4", sizeGB: 32 } },
+  { id: uid(), name: "Kingston Fury 16GB (2x8) 6000 DDR5", category: "RAM", price: 2190, stock: 15, cost: 1850, attributes: { type: "DDR5", sizeGB: 16, modules: 2 } },
+  { id: uid(), name: "Corsair Vengeance 32GB (2x16) 3200 DDR4", category: "RAM", price: 2690, stock: 10, cost: 2300, attributes: { type: "DDR4", sizeGB: 32, modules: 2 } },
 
   { id: uid(), name: "WD Black SN770 1TB NVMe", category: "Storage", price: 2990, stock: 18, cost: 2500, attributes: { interface: "M.2 NVMe" } },
   { id: uid(), name: "Seagate Barracuda 2TB SATA", category: "Storage", price: 1690, stock: 8, cost: 1400, attributes: { interface: "SATA" } },
 
-  { id: uid(), name: "Corsair RM750", category: "PSU", price: 3290, stock: 7, cost: 2800, attributes: { wattage: 750 } },
-  { id: uid(), name: "Antec NeoECO 550", category: "PSU", price: 1890, stock: 11, cost: 1600, attributes: { wattage: 550 } },
+  { id: uid(), name: "Corsair RM750", category: "PSU", price: 3290, stock: 7, cost: 2800, attributes: { wattage: 750, efficiencyRating: "80+ Gold", pcie8Pin: 4, pcie12VHPWR: 0 } },
+  { id: uid(), name: "Antec NeoECO 550", category: "PSU", price: 1890, stock: 11, cost: 1600, attributes: { wattage: 550, efficiencyRating: "80+ Bronze", pcie8Pin: 2, pcie12VHPWR: 0 } },
 
-  { id: uid(), name: "NZXT H5 Flow", category: "Case", price: 3590, stock: 3, cost: 3000, attributes: { formFactorSupport: ["ATX", "mATX", "ITX"] } },
-  { id: uid(), name: "Cooler Master NR200", category: "Case", price: 3290, stock: 5, cost: 2800, attributes: { formFactorSupport: ["ITX"] } },
+  { id: uid(), name: "NZXT H5 Flow", category: "Case", price: 3590, stock: 3, cost: 3000, attributes: { formFactorSupport: ["ATX", "mATX", "ITX"], maxGpuLengthMm: 365, maxCoolerHeightMm: 165, fans: 2 } },
+  { id: uid(), name: "Cooler Master NR200", category: "Case", price: 3290, stock: 5, cost: 2800, attributes: { formFactorSupport: ["ITX"], maxGpuLengthMm: 330, maxCoolerHeightMm: 155, fans: 2 } },
 
-  { id: uid(), name: "DeepCool AK400", category: "Cooler", price: 1190, stock: 9, cost: 990, attributes: { socketSupport: ["AM5", "LGA1700"] } },
-  { id: uid(), name: "NZXT Kraken 240", category: "Cooler", price: 4490, stock: 4, cost: 3990, attributes: { socketSupport: ["AM5", "LGA1700"] } },
+  { id: uid(), name: "DeepCool AK400", category: "Cooler", price: 1190, stock: 9, cost: 990, attributes: { socketSupport: ["AM5", "LGA1700"], coolerHeightMm: 155, coolerType: "Air", fans: 1 } },
+  { id: uid(), name: "NZXT Kraken 240", category: "Cooler", price: 4490, stock: 4, cost: 3990, attributes: { socketSupport: ["AM5", "LGA1700"], coolerType: "AIO", fans: 2 } },
 
   // Add-ons
   { id: uid(), name: 'AOC 24G2 24" 144Hz IPS', category: "Monitor", price: 4490, stock: 10, cost: 3800, attributes: { size: 24, refresh: 144 } },
@@ -110,35 +180,397 @@ const DEMO_DATA: Product[] = [
 ];
 
 // ===== Hooks =====
-function useLocalStorage<T>(key: string, init: T) {
+function useLocalStorage<T>(key: string, init: T | (() => T), migrate?: (stored: T) => T) {
+  const initial = () => (typeof init === "function" ? (init as () => T)() : init);
   const [state, setState] = useState<T>(() => {
-    try { const raw = localStorage.getItem(key); return raw ? (JSON.parse(raw) as T) : init; }
-    catch { return init; }
+    try { const raw = localStorage.getItem(key); return raw ? (migrate ? migrate(JSON.parse(raw) as T) : JSON.parse(raw) as T) : initial(); }
+    catch { return initial(); }
   });
-  useEffect(()=>{ try { localStorage.setItem(key, JSON.stringify(state)); } catch {} }, [key, state]);
+  // A full quota would otherwise drop every later save silently; one toast per key until a save succeeds again
+  useEffect(()=>{
+    try { localStorage.setItem(key, JSON.stringify(state)); toast.dismiss(`save:${key}`); }
+    catch { toast.error("บันทึกข้อมูลไม่สำเร็จ — พื้นที่เก็บข้อมูลของเบราว์เซอร์อาจเต็ม การเปลี่ยนแปลงล่าสุดจะหายเมื่อปิดหน้า", { id: `save:${key}`, duration: Infinity }); }
+  }, [key, state]);
   return [state, setState] as const;
 }
 
+// Shortcuts leave text fields alone so the browser's own undo / typing still works there
+const isTextTarget = (e: KeyboardEvent) => {
+  const t = e.target as HTMLElement | null;
+  return !!t && (t.isContentEditable || ["INPUT","TEXTAREA","SELECT"].includes(t.tagName));
+};
+
+// Keyboard-wedge scanners type the whole code in a burst and finish with Enter, far faster than a person.
+// Keys aimed at text fields are left alone so a barcode can still be scanned into an input.
+const SCAN_MAX_GAP_MS = 50;
+const SCAN_MIN_LENGTH = 4;
+// Read digits/letters and SKU punctuation from the physical key so a Thai keyboard layout doesn't turn "8851..."
+// into Thai letters, or the "-" key into "ข" (Thai puts "-" on the 3 key, so the physical key wins over e.key)
+const SCAN_CODE_CHARS: Record<string, string> = { Minus: "-", Period: ".", Slash: "/" };
+const scanChar = (e: KeyboardEvent) => {
+  const m = /^(?:Digit|Numpad)(\d)$/.exec(e.code) || /^Key([A-Z])$/.exec(e.code);
+  return m ? m[1] : own(SCAN_CODE_CHARS, e.code) ?? (e.key.length === 1 ? e.key : "");
+};
+function useBarcodeScanner(enabled: boolean, onScan: (code: string) => void) {
+  const handler = useRef(onScan);
+  handler.current = onScan;
+  useEffect(() => {
+    if (!enabled) return;
+    let buffer = "", last = 0;
+    const onKey = (e: KeyboardEvent) => {
+      if (isTextTarget(e) || e.ctrlKey || e.metaKey || e.altKey) return;
+      const now = Date.now();
+      if (now - last > SCAN_MAX_GAP_MS) buffer = "";
+      last = now;
+      if (e.key === "Enter") {
+        if (buffer.length >= SCAN_MIN_LENGTH) { e.preventDefault(); handler.current(buffer); }
+        buffer = "";
+      }
+      else buffer += scanChar(e);
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [enabled]);
+}
+
+// Ctrl/⌘+Z undoes, Ctrl/⌘+Shift+Z or Ctrl+Y redoes; matched on the physical key so a Thai layout still works
+function useUndoRedoKeys(onUndo: () => void, onRedo: () => void) {
+  const handlers = useRef({ onUndo, onRedo });
+  handlers.current = { onUndo, onRedo };
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextTarget(e)) return;
+      const redo = (e.code === "KeyZ" && e.shiftKey) || (e.code === "KeyY" && !e.shiftKey);
+      if (!redo && !(e.code === "KeyZ" && !e.shiftKey)) return;
+      e.preventDefault();
+      if (redo) handlers.current.onRedo(); else handlers.current.onUndo();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+}
+
+// ===== Saved Builds =====
+const emptyBuild = (): BuildState => ({ base: {}, addons: [] });
+const buildSubtotal = (b: BuildState, tier?: PriceTier) => fromSatang([...baseEntries(b.base), ...b.addons].reduce((s,e)=>s+lineAmount(tierPrice(e.product, tier), e.qty),0));
+// Builds saved before multi-item categories stored one Product per base category
+function migrateBuild(b: BuildState): BuildState {
+  const base: BaseSelection = {};
+  for (const [c, v] of Object.entries((b.base || {}) as Record<string, any>)) {
+    if (Array.isArray(v)) { if (v.length) base[c] = v; }
+    else if (v) base[c] = [{ id: uid(), product: v as Product, qty: 1 }];
+  }
+  return { base, addons: b.addons || [] };
+}
+const migrateBuilds = (list: SavedBuild[]) => list.map(b => ({ ...b, build: migrateBuild(b.build) }));
+function newSavedBuild(name: string, build: BuildState = emptyBuild()): SavedBuild {
+  const now = Date.now();
+  return { id: uid(), name, customer: "", note: "", createdAt: now, updatedAt: now, build };
+}
+// Seeds the library from the single build kept by earlier versions (STORAGE_KEYS.build)
+function loadInitialBuilds(): SavedBuild[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEYS.build);
+    if (raw) return [newSavedBuild("สเปคเดิม", migrateBuild(JSON.parse(raw) as BuildState))];
+  } catch {}
+  return [newSavedBuild("สเปคใหม่")];
+}
+
+// ===== Build history (undo / redo) =====
+// Kept in memory per saved build. Each step stores the state *before* its labelled change, filters included,
+// so undoing also brings back the filters Smart Sync rewrote for that selection.
+type BuildSnapshot = { build: BuildState; filters: AttrFilters };
+type BuildStep = BuildSnapshot & { label: string };
+type BuildHistory = { past: BuildStep[]; future: BuildStep[] };
+const HISTORY_LIMIT = 50;
+const emptyHistory = (): BuildHistory => ({ past: [], future: [] });
+
+const pushStep = (h: BuildHistory | undefined, step: BuildStep): BuildHistory => ({ past: [...(h?.past || []), step].slice(-HISTORY_LIMIT), future: [] });
+function undoStep(h: BuildHistory, current: BuildSnapshot): { history: BuildHistory; restore: BuildSnapshot; label: string } | null {
+  const step = h.past[h.past.length - 1];
+  if (!step) return null;
+  return { history: { past: h.past.slice(0, -1), future: [{ ...current, label: step.label }, ...h.future] }, restore: step, label: step.label };
+}
+function redoStep(h: BuildHistory, current: BuildSnapshot): { history: BuildHistory; restore: BuildSnapshot; label: string } | null {
+  const step = h.future[0];
+  if (!step) return null;
+  return { history: { past: [...h.past, { ...current, label: step.label }], future: h.future.slice(1) }, restore: step, label: step.label };
+}
+
+function describeLines(before: { product: Product; qty: number }[], after: { product: Product; qty: number }[], slot: (p: Product) => string): string[] {
+  const was = new Map(before.map(e => [e.product.id, e]));
+  const now = new Set(after.map(e => e.product.id));
+  const removed = before.filter(e => !now.has(e.product.id));
+  const added = after.filter(e => !was.has(e.product.id));
+  const out: string[] = [];
+  if (removed.length === 1 && added.length === 1) out.push(`${slot(added[0].product)}: ${removed[0].product.name} → ${added[0].product.name}`);
+  else {
+    for (const e of removed) out.push(`− ${slot(e.product)}: ${e.product.name}`);
+    for (const e of added) out.push(`+ ${slot(e.product)}: ${e.product.name}${e.qty > 1 ? ` ×${e.qty}` : ""}`);
+  }
+  for (const e of after) {
+    const old = was.get(e.product.id);
+    if (!old) continue;
+    if (old.qty !== e.qty) out.push(`${slot(e.product)}: ${e.product.name} ×${old.qty} → ×${e.qty}`);
+    else if (JSON.stringify(old.product) !== JSON.stringify(e.product)) out.push(`${slot(e.product)}: อัปเดต ${e.product.name}`);
+  }
+  return out;
+}
+// "CPU: Ryzen 5 7600 → i5-13400F"; an empty label means nothing visible changed
+function describeBuildChange(prev: BuildState, next: BuildState): string {
+  const cats = Array.from(new Set([...Object.keys(prev.base), ...Object.keys(next.base)]));
+  const parts = cats.flatMap(cat => describeLines(own(prev.base, cat) || [], own(next.base, cat) || [], () => cat));
+  const addonCats = Array.from(new Set([...prev.addons, ...next.addons].map(a => a.product.category)));
+  parts.push(...addonCats.flatMap(cat => describeLines(prev.addons.filter(a => a.product.category === cat), next.addons.filter(a => a.product.category === cat), () => cat)));
+  if (parts.length > 2 && !baseEntries(next.base).length && !next.addons.length) return "ล้างสเปค";
+  return parts.length > 2 ? `${parts.slice(0, 2).join(", ")} และอีก ${parts.length - 2} รายการ` : parts.join(", ");
+}
+
+// Oldest step first; clicking a step jumps to the state right after it
+function BuildHistoryPanel({ history, onUndo, onRedo, onJump }:{ history: BuildHistory; onUndo: ()=>void; onRedo: ()=>void; onJump: (steps: number)=>void }){
+  const { past, future } = history;
+  const rowCls = "w-full text-left px-3 py-1.5 rounded-lg text-sm hover:bg-muted/50 truncate";
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2"><History className="w-5 h-5"/> ประวัติการเลือก</CardTitle>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={onUndo} disabled={!past.length} className={!past.length ? "opacity-50 cursor-not-allowed" : ""} title="Ctrl/⌘+Z"><Undo2 className="w-4 h-4 mr-1"/> ย้อนกลับ</Button>
+          <Button variant="secondary" onClick={onRedo} disabled={!future.length} className={!future.length ? "opacity-50 cursor-not-allowed" : ""} title="Ctrl/⌘+Shift+Z"><Redo2 className="w-4 h-4 mr-1"/> ทำซ้ำ</Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!past.length && !future.length ? <div className="text-sm text-muted-foreground">ยังไม่มีการเปลี่ยนแปลง — เลือกชิ้นส่วนแล้วกด Ctrl/⌘+Z เพื่อย้อนกลับ</div> : (
+          <div className="max-h-[220px] overflow-auto space-y-0.5">
+            <button className={`${rowCls} text-muted-foreground`} onClick={()=>onJump(-past.length)}>เริ่มต้น</button>
+            {past.map((s, i) => (
+              <button key={`p${i}`} className={`${rowCls} ${i === past.length - 1 ? "bg-primary/10 font-medium" : ""}`} title={s.label} onClick={()=>onJump(i - past.length + 1)}>{i + 1}. {s.label}</button>
+            ))}
+            {future.map((s, i) => (
+              <button key={`f${i}`} className={`${rowCls} text-muted-foreground line-through decoration-slate-300`} title={s.label} onClick={()=>onJump(i + 1)}>{past.length + i + 1}. {s.label}</button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// ===== Power (PSU sizing) =====
+type PowerSettings = { headroomPercent: number };
+type PowerMeasure = "recommended"|"peak"|"sustained";
+const POWER_DRAW = { motherboard: 50, ramModule: 4, nvme: 7, sata: 9, fan: 3, aioPump: 6, gpuTransientFactor: 1.6 } as const;
+const PSU_EFFICIENCY: Record<string, number> = { "80+": 0.8, "80+ Bronze": 0.85, "80+ Silver": 0.88, "80+ Gold": 0.9, "80+ Platinum": 0.92, "80+ Titanium": 0.94 };
+const POWER_MEASURES: Record<PowerMeasure, string> = { recommended: "กำลังไฟแนะนำ (รวม headroom)", peak: "กำลังไฟสูงสุดชั่วขณะ", sustained: "กำลังไฟใช้งานต่อเนื่อง" };
+const roundUp50 = (w: number) => Math.ceil(w / 50) * 50;
+
+function psuSizing(parts: BaseSelection, power: PowerSettings) {
+  const items: { label: string; watts: number }[] = [];
+  const add = (label: string, watts: number) => { if (watts > 0) items.push({ label, watts: Math.round(watts) }); };
+  for (const e of parts["CPU"] || []) add(`CPU: ${e.product.name}`, (e.product.attributes?.tdp || 0) * e.qty);
+  for (const e of parts["GPU"] || []) add(`GPU: ${e.product.name}${e.qty>1 ? ` x${e.qty}` : ""}`, (e.product.attributes?.tdp || 0) * e.qty);
+  if (parts["Motherboard"]?.length) add("เมนบอร์ด / ชิปเซ็ต / USB", POWER_DRAW.motherboard);
+  const modules = (parts["RAM"] || []).reduce((s,e)=>s+(Number(e.product.attributes?.modules)||1)*e.qty, 0);
+  add(`RAM ${modules} แถว`, modules * POWER_DRAW.ramModule);
+  for (const e of parts["Storage"] || []) add(`สตอเรจ: ${e.product.name}${e.qty>1 ? ` x${e.qty}` : ""}`, (e.product.attributes?.interface === "M.2 NVMe" ? POWER_DRAW.nvme : POWER_DRAW.sata) * e.qty);
+  for (const e of parts["Cooler"] || []) {
+    const a = e.product.attributes || {};
+    add(`ระบายความร้อน: ${e.product.name}${e.qty>1 ? ` x${e.qty}` : ""}`, ((Number(a.fans)||1) * POWER_DRAW.fan + (a.coolerType === "AIO" ? POWER_DRAW.aioPump : 0)) * e.qty);
+  }
+  for (const e of parts["Case"] || []) add(`พัดลมเคส ${Number(e.product.attributes?.fans)||0} ตัว`, (Number(e.product.attributes?.fans)||0) * POWER_DRAW.fan);
+
+  const sustained = items.reduce((s,i)=>s+i.watts, 0);
+  // GPUs spike well above their rated TDP for milliseconds; the PSU must ride through these without tripping OCP
+  const gpuTdp = (parts["GPU"] || []).reduce((s,e)=>s+(e.product.attributes?.tdp || 0)*e.qty, 0);
+  const transient = Math.round(gpuTdp * (POWER_DRAW.gpuTransientFactor - 1));
+  const peak = sustained + transient;
+  const recommendedMin = sustained ? roundUp50(Math.max(sustained * (1 + (power.headroomPercent||0) / 100), peak)) : 0;
+  // PSUs run most efficiently around half load, so twice the sustained draw is the sensible upper end
+  const recommendedMax = Math.max(recommendedMin, roundUp50(sustained * 2));
+  const psu = firstProduct(parts, "PSU");
+  const efficiency = PSU_EFFICIENCY[psu?.attributes?.efficiencyRating];
+  const wallDraw = efficiency ? Math.round(sustained / efficiency) : undefined;
+  return { items, sustained, transient, peak, recommendedMin, recommendedMax, efficiency, wallDraw };
+}
+function estimateWattage(parts: BaseSelection, power: PowerSettings, measure: PowerMeasure = "recommended"): number {
+  const sizing = psuSizing(parts, power);
+  return measure === "peak" ? sizing.peak : measure === "sustained" ? sizing.sustained : sizing.recommendedMin;
+}
+
 // ===== Compatibility =====
-function estimateWattage(parts: Partial<Record<BaseCategory, Product>>): number {
-  const cpu = parts["CPU"]?.attributes?.tdp || 0;
-  const gpu = parts["GPU"]?.attributes?.tdp || 0;
-  return cpu + gpu + 100;
-}
-function checkCompatibility(parts: Partial<Record<BaseCategory, Product>>) {
-  const notes: { level: "ok"|"warn"|"error"; msg: string }[] = [];
-  const cpu = parts["CPU"]; const mb = parts["Motherboard"]; const ram = parts["RAM"]; const gpu = parts["GPU"]; const psu = parts["PSU"]; const cooler = parts["Cooler"]; const pcCase = parts["Case"]; const storage = parts["Storage"];
-  if (cpu && mb) notes.push(cpu.attributes.socket===mb.attributes.socket ? {level:"ok", msg:"CPU ✔ เมนบอร์ด ✔ (ซ็อกเก็ตตรงกัน)"} : {level:"error", msg:`CPU socket (${cpu.attributes.socket}) ไม่ตรงกับเมนบอร์ด (${mb.attributes.socket})`});
-  if (ram && mb) notes.push(ram.attributes.type===mb.attributes.ramType ? {level:"ok", msg:"RAM ✔ เมนบอร์ด ✔ (ชนิดแรมตรงกัน)"} : {level:"error", msg:`RAM (${ram.attributes.type}) ไม่ตรงกับเมนบอร์ด (${mb.attributes.ramType})`});
-  if (gpu && mb) notes.push(mb.attributes.pcieSlots ? {level:"ok", msg:"GPU ✔ เมนบอร์ด ✔ (มีสล็อต PCIe)"} : {level:"error", msg:"เมนบอร์ดนี้ไม่มีสล็อต PCIe สำหรับการ์ดจอ"});
-  if (pcCase && mb){ const ok=(pcCase.attributes.formFactorSupport||[]).includes(mb.attributes.formFactor); notes.push(ok?{level:"ok",msg:"เคส ✔ เมนบอร์ด ✔ (ขนาดตรงกัน)"}:{level:"error",msg:`เคสรองรับ ${(pcCase.attributes.formFactorSupport||[]).join(", ")||"-"} ไม่ตรงกับเมนบอร์ด (${mb.attributes.formFactor})`}); }
-  if (cooler && cpu){ const ok=(cooler.attributes.socketSupport||[]).includes(cpu.attributes.socket); notes.push(ok?{level:"ok",msg:"คูลเลอร์ ✔ CPU ✔ (รองรับซ็อกเก็ต)"}:{level:"error",msg:`ชุดระบายความร้อนไม่รองรับซ็อกเก็ต CPU (${cpu.attributes.socket})`}); }
-  if (storage && mb){ if (storage.attributes.interface && mb.attributes.storage){ const ok=(mb.attributes.storage||[]).includes(storage.attributes.interface); notes.push(ok?{level:"ok",msg:"สตอเรจ ✔ เมนบอร์ด ✔ (อินเทอร์เฟซตรงกัน)"}:{level:"error",msg:`สตอเรจ (${storage.attributes.interface}) ไม่ตรงกับพอร์ตบนเมนบอร์ด (${(mb.attributes.storage||[]).join(", ")})`}); } }
-  if (psu){ const need=estimateWattage(parts), has=psu.attributes.wattage||0; notes.push(has<need?{level:"warn",msg:`กำลังไฟ PSU ${has}W อาจไม่พอ ต้องการอย่างน้อย ~${need}W`}:{level:"ok",msg:`PSU เพียงพอ (ต้องการ ~${need}W)`}); }
+// Rules are data: left operand is always a category attribute. Pseudo-attributes aggregate over a category:
+// "#qty" total quantity, "#qty:attr=value" quantity of entries whose attr matches, "#sum:attr" sum of attr × qty (missing attr counts as 1),
+// "#total:attr" sum of attr × qty over entries that have it (e.g. power connectors two identical GPUs need)
+type RuleOperator = "equals"|"notEquals"|"contains"|"in"|"lte"|"gte"|"lt"|"gt";
+type RuleOperand =
+  | { source: "attr"; category: BaseCategory; attribute: string }
+  | { source: "value"; value: string }
+  | { source: "wattage"; measure?: PowerMeasure };
+type CompatRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  left: { category: BaseCategory; attribute: string };
+  op: RuleOperator;
+  right: RuleOperand;
+  severity: "error"|"warn";
+  whenMissing: "skip"|"fail";
+  message: string;
+  okMessage?: string;
+};
+// refs point at the base entries a rule note was raised for, so a fix can try swapping them
+type NoteRef = { cat: BaseCategory; entryId: string };
+type CompatNote = { level: "ok"|"warn"|"error"; msg: string; ruleId?: string; refs?: NoteRef[] };
+
+const RULE_OPERATORS: Record<RuleOperator, string> = {
+  equals: "เท่ากับ", notEquals: "ไม่เท่ากับ", contains: "มีค่า (รายการซ้ายมีค่าขวา)", in: "อยู่ใน (ค่าซ้ายอยู่ในรายการขวา)",
+  lte: "≤", gte: "≥", lt: "<", gt: ">",
+};
+const DEFAULT_RULES: CompatRule[] = [
+  { id: "default-cpu-socket", name: "ซ็อกเก็ต CPU กับเมนบอร์ด", enabled: true, left: { category: "CPU", attribute: "socket" }, op: "equals", right: { source: "attr", category: "Motherboard", attribute: "socket" }, severity: "error", whenMissing: "fail",
+    message: "CPU socket ({left}) ไม่ตรงกับเมนบอร์ด ({right})", okMessage: "CPU ✔ เมนบอร์ด ✔ (ซ็อกเก็ตตรงกัน)" },
+  { id: "default-ram-type", name: "ชนิดแรมกับเมนบอร์ด", enabled: true, left: { category: "RAM", attribute: "type" }, op: "equals", right: { source: "attr", category: "Motherboard", attribute: "ramType" }, severity: "error", whenMissing: "fail",
+    message: "RAM {leftName} ({left}) ไม่ตรงกับเมนบอร์ด ({right})", okMessage: "RAM ✔ เมนบอร์ด ✔ (ชนิดแรมตรงกัน: {leftName})" },
+  { id: "default-gpu-pcie", name: "จำนวนการ์ดจอกับสล็อต PCIe", enabled: true, left: { category: "GPU", attribute: "#qty" }, op: "lte", right: { source: "attr", category: "Motherboard", attribute: "pcieSlots" }, severity: "error", whenMissing: "fail",
+    message: "การ์ดจอ {left} ใบ แต่เมนบอร์ดมีสล็อต PCIe {right}", okMessage: "GPU ✔ เมนบอร์ด ✔ (มีสล็อต PCIe)" },
+  { id: "default-case-formfactor", name: "เคสรองรับขนาดเมนบอร์ด", enabled: true, left: { category: "Case", attribute: "formFactorSupport" }, op: "contains", right: { source: "attr", category: "Motherboard", attribute: "formFactor" }, severity: "error", whenMissing: "fail",
+    message: "เคสรองรับ {left} ไม่ตรงกับเมนบอร์ด ({right})", okMessage: "เคส ✔ เมนบอร์ด ✔ (ขนาดตรงกัน)" },
+  { id: "default-cooler-socket", name: "คูลเลอร์รองรับซ็อกเก็ต CPU", enabled: true, left: { category: "Cooler", attribute: "socketSupport" }, op: "contains", right: { source: "attr", category: "CPU", attribute: "socket" }, severity: "error", whenMissing: "skip",
+    message: "ชุดระบายความร้อน {leftName} ไม่รองรับซ็อกเก็ต CPU ({right})", okMessage: "คูลเลอร์ ✔ CPU ✔ (รองรับซ็อกเก็ต)" },
+  { id: "default-storage-interface", name: "อินเทอร์เฟซสตอเรจกับพอร์ตบนเมนบอร์ด", enabled: true, left: { category: "Storage", attribute: "interface" }, op: "in", right: { source: "attr", category: "Motherboard", attribute: "storage" }, severity: "error", whenMissing: "skip",
+    message: "สตอเรจ {leftName} ({left}) ไม่ตรงกับพอร์ตบนเมนบอร์ด ({right})", okMessage: "สตอเรจ ✔ เมนบอร์ด ✔ (อินเทอร์เฟซตรงกัน)" },
+  { id: "default-psu-wattage", name: "กำลังไฟ PSU", enabled: true, left: { category: "PSU", attribute: "wattage" }, op: "gte", right: { source: "wattage" }, severity: "warn", whenMissing: "fail",
+    message: "กำลังไฟ PSU {left}W อาจไม่พอ ต้องการอย่างน้อย ~{right}W", okMessage: "PSU เพียงพอ (ต้องการ ~{right}W)" },
+  { id: "default-psu-peak", name: "PSU รับไฟกระชากของการ์ดจอ", enabled: true, left: { category: "PSU", attribute: "wattage" }, op: "gte", right: { source: "wattage", measure: "peak" }, severity: "error", whenMissing: "fail",
+    message: "PSU {left}W ต่ำกว่าการใช้ไฟสูงสุดชั่วขณะ ~{right}W (เครื่องอาจดับขณะเล่นเกม)" },
+  { id: "default-psu-pcie8", name: "หัว PCIe 8-pin ของ PSU กับการ์ดจอ", enabled: true, left: { category: "GPU", attribute: "#total:pcie8Pin" }, op: "lte", right: { source: "attr", category: "PSU", attribute: "pcie8Pin" }, severity: "error", whenMissing: "skip",
+    message: "การ์ดจอทั้งหมดต้องใช้ PCIe 8-pin {left} หัว แต่ PSU มี {right} หัว", okMessage: "GPU ✔ PSU ✔ (หัว PCIe 8-pin พอ)" },
+  { id: "default-psu-12vhpwr", name: "หัว 12VHPWR ของ PSU กับการ์ดจอ", enabled: true, left: { category: "GPU", attribute: "#total:pcie12VHPWR" }, op: "lte", right: { source: "attr", category: "PSU", attribute: "pcie12VHPWR" }, severity: "warn", whenMissing: "skip",
+    message: "การ์ดจอทั้งหมดใช้หัว 12VHPWR {left} หัว แต่ PSU มี {right} หัว ต้องใช้สายแปลง" },
+  { id: "default-gpu-length", name: "ความยาวการ์ดจอกับเคส", enabled: true, left: { category: "GPU", attribute: "gpuLengthMm" }, op: "lte", right: { source: "attr", category: "Case", attribute: "maxGpuLengthMm" }, severity: "error", whenMissing: "skip",
+    message: "การ์ดจอ {leftName} ยาว {left} มม. เกินที่เคสรองรับ ({right} มม.)", okMessage: "การ์ดจอ ✔ เคส ✔ (ความยาวใส่ได้)" },
+  { id: "default-cooler-height", name: "ความสูงซิงก์ CPU กับเคส", enabled: true, left: { category: "Cooler", attribute: "coolerHeightMm" }, op: "lte", right: { source: "attr", category: "Case", attribute: "maxCoolerHeightMm" }, severity: "error", whenMissing: "skip",
+    message: "ชุดระบายความร้อน {leftName} สูง {left} มม. เกินที่เคสรองรับ ({right} มม.)", okMessage: "คูลเลอร์ ✔ เคส ✔ (ความสูงใส่ได้)" },
+  { id: "default-ram-slots", name: "จำนวนแถวแรมกับสล็อตบนเมนบอร์ด", enabled: true, left: { category: "RAM", attribute: "#sum:modules" }, op: "lte", right: { source: "attr", category: "Motherboard", attribute: "ramSlots" }, severity: "error", whenMissing: "skip",
+    message: "แรมรวม {left} แถว เกินจำนวนสล็อตบนเมนบอร์ด ({right} สล็อต)", okMessage: "RAM ✔ เมนบอร์ด ✔ (สล็อตแรมพอ)" },
+  { id: "default-m2-slots", name: "จำนวนไดรฟ์ M.2 กับสล็อต M.2", enabled: true, left: { category: "Storage", attribute: "#qty:interface=M.2 NVMe" }, op: "lte", right: { source: "attr", category: "Motherboard", attribute: "m2Slots" }, severity: "error", whenMissing: "skip",
+    message: "ไดรฟ์ M.2 {left} ตัว เกินจำนวนสล็อต M.2 บนเมนบอร์ด ({right} สล็อต)", okMessage: "สตอเรจ ✔ เมนบอร์ด ✔ (สล็อต M.2 พอ)" },
+  { id: "default-sata-ports", name: "จำนวนไดรฟ์ SATA กับพอร์ต SATA", enabled: true, left: { category: "Storage", attribute: "#qty:interface=SATA" }, op: "lte", right: { source: "attr", category: "Motherboard", attribute: "sataPorts" }, severity: "warn", whenMissing: "skip",
+    message: "ไดรฟ์ SATA {left} ตัว เกินจำนวนพอร์ต SATA บนเมนบอร์ด ({right} พอร์ต)", okMessage: "สตอเรจ ✔ เมนบอร์ด ✔ (พอร์ต SATA พอ)" },
+];
+// Stored rule sets keep user edits; defaults shipped later are appended (defaults can be disabled, not deleted).
+// The connector rules used to compare one card at a time; unedited copies move to the per-build total.
+const PER_CARD_CONNECTOR_RULES: Record<string, { attribute: string; message: string }> = {
+  "default-psu-pcie8": { attribute: "pcie8Pin", message: "การ์ดจอ {leftName} ต้องใช้ PCIe 8-pin {left} หัว แต่ PSU มี {right} หัว" },
+  "default-psu-12vhpwr": { attribute: "pcie12VHPWR", message: "การ์ดจอ {leftName} ใช้หัว 12VHPWR {left} หัว แต่ PSU มี {right} หัว ต้องใช้สายแปลง" },
+};
+const migrateRules = (rules: CompatRule[]) => [
+  ...rules.map(r => {
+    const old = own(PER_CARD_CONNECTOR_RULES, r.id), d = DEFAULT_RULES.find(x => x.id === r.id);
+    if (!old || !d || r.left.attribute !== old.attribute) return r;
+    return { ...r, left: d.left, message: r.message === old.message ? d.message : r.message };
+  }),
+  ...DEFAULT_RULES.filter(d => !rules.some(r => r.id === d.id)),
+];
+
+const isMissing = (v: any) => v===undefined || v===null || v==="" || (Array.isArray(v) && v.length===0);
+const asList = (v: any): string[] => Array.isArray(v) ? v.map(String) : String(v).split(",").map(x=>x.trim());
+function compareValues(op: RuleOperator, l: any, r: any): boolean {
+  switch (op) {
+    case "equals": return asList(l).join(",") === asList(r).join(",");
+    case "notEquals": return asList(l).join(",") !== asList(r).join(",");
+    case "contains": return asList(r).some(x => asList(l).includes(x));
+    case "in": return asList(l).some(x => asList(r).includes(x));
+    case "lte": return Number(l) <= Number(r);
+    case "gte": return Number(l) >= Number(r);
+    case "lt": return Number(l) < Number(r);
+    case "gt": return Number(l) > Number(r);
+  }
+}
+type OperandItem = { value: any; name: string; refs: NoteRef[] };
+function operandItems(parts: BaseSelection, o: RuleOperand, power: PowerSettings): OperandItem[] {
+  if (o.source === "value") return [{ value: o.value, name: "", refs: [] }];
+  if (o.source === "wattage") return [{ value: estimateWattage(parts, power, o.measure), name: "", refs: [] }];
+  const cat = o.category;
+  const entries = own(parts, o.category) || [];
+  const qtyMatch = /^#qty(?::(\w+)=(.+))?$/.exec(o.attribute);
+  if (qtyMatch) {
+    const [, attr, want] = qtyMatch;
+    const matching = attr ? entries.filter(e => !isMissing(e.product.attributes?.[attr]) && asList(e.product.attributes[attr]).includes(want)) : entries;
+    return matching.length ? [{ value: matching.reduce((s,e)=>s+e.qty,0), name: cat, refs: matching.map(e => ({ cat, entryId: e.id })) }] : [];
+  }
+  const sumMatch = /^#sum:(\w+)$/.exec(o.attribute);
+  if (sumMatch) return entries.length ? [{ value: entries.reduce((s,e)=>s+(Number(e.product.attributes?.[sumMatch[1]])||1)*e.qty,0), name: cat, refs: entries.map(e => ({ cat, entryId: e.id })) }] : [];
+  const totalMatch = /^#total:(\w+)$/.exec(o.attribute);
+  if (totalMatch) {
+    const having = entries.filter(e => !isMissing(e.product.attributes?.[totalMatch[1]]));
+    return having.length ? [{ value: having.reduce((s,e)=>s+(Number(e.product.attributes[totalMatch[1]])||0)*e.qty,0), name: cat, refs: having.map(e => ({ cat, entryId: e.id })) }] : [];
+  }
+  return entries.map(e => ({ value: e.product.attributes?.[o.attribute], name: e.product.name, refs: [{ cat, entryId: e.id }] }));
+}
+const fillTemplate = (tpl: string, vars: Record<string, any>) => tpl.replace(/\{(\w+)\}/g, (m, k) => k in vars ? (isMissing(vars[k]) ? "-" : asList(vars[k]).join(", ")) : m);
+
+// Every left item is checked against every right item; a rule only applies once both categories are selected
+function evaluateRules(parts: BaseSelection, rules: CompatRule[], power: PowerSettings): CompatNote[] {
+  const notes: CompatNote[] = [];
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const lefts = operandItems(parts, { source: "attr", ...rule.left }, power);
+    const rights = operandItems(parts, rule.right, power);
+    for (const l of lefts) for (const r of rights) {
+      const missing = isMissing(l.value) || isMissing(r.value);
+      if (missing && rule.whenMissing === "skip") continue;
+      const ok = !missing && compareValues(rule.op, l.value, r.value);
+      const vars = { left: l.value, right: r.value, leftName: l.name, rightName: r.name, leftCategory: rule.left.category, rightCategory: rule.right.source === "attr" ? rule.right.category : "" };
+      if (ok) { if (rule.okMessage) notes.push({ level: "ok", msg: fillTemplate(rule.okMessage, vars), ruleId: rule.id }); }
+      else notes.push({ level: rule.severity, msg: fillTemplate(rule.message, vars), ruleId: rule.id, refs: [...l.refs, ...r.refs] });
+    }
+  }
+  return notes;
+}
+function checkCompatibility(parts: BaseSelection, rules: CompatRule[], power: PowerSettings, categories: CategoryDef[]) {
+  const notes: CompatNote[] = [];
+  for (const cat of Object.keys(parts)) { const qty = categoryQty(parts, cat), max = maxQtyOf(categories, cat); if (qty > max) notes.push({level:"error", msg:`${cat} เลือกได้สูงสุด ${max} ชิ้น (เลือกไว้ ${qty})`}); }
+  const rams = parts["RAM"] || [];
+  if (rams.length>1 && new Set(rams.map(e=>e.product.id)).size>1) notes.push({level:"warn", msg:"ใช้แรมต่างรุ่นกัน อาจทำงานที่ความเร็วต่ำสุดหรือไม่เสถียร"});
+  notes.push(...evaluateRules(parts, rules, power));
   const level = notes.some(n=>n.level==="error")?"error":notes.some(n=>n.level==="warn")?"warn":"ok";
   return { level, notes } as const;
 }
 
+// ===== Fix suggestions =====
+type FixSuggestion = { cat: BaseCategory; entryId: string; product: Product; kind: "cheapest"|"closest" };
+const replaceEntry = (parts: BaseSelection, ref: NoteRef, product: Product): BaseSelection =>
+  ({ ...parts, [ref.cat]: (own(parts, ref.cat) || []).map(e => e.id === ref.entryId ? { ...e, product } : e) });
+
+// An error is identified by its rule and the entries it points at (entry ids survive a swap); rule-less notes by message
+const refsKey = (n: CompatNote) => (n.refs || []).map(r => `${r.cat}:${r.entryId}`).sort().join(",");
+const errorKey = (n: CompatNote) => n.ruleId ? `${n.ruleId}|${refsKey(n)}` : `msg|${n.msg}`;
+
+// A swap qualifies when this note (same rule, same entries) no longer fails and every remaining error was already there before;
+// the same rule may still fail elsewhere in the build, e.g. for another RAM stick
+function suggestFixes(parts: BaseSelection, note: CompatNote, inventory: Product[], rules: CompatRule[], power: PowerSettings, categories: CategoryDef[]): FixSuggestion[] {
+  if (!note.ruleId || !note.refs?.length) return [];
+  const errorKeys = (notes: CompatNote[]) => notes.filter(n => n.level==="error").map(errorKey);
+  const allowed = new Set(errorKeys(checkCompatibility(parts, rules, power, categories).notes));
+  const noteRefs = refsKey(note);
+  const out: FixSuggestion[] = [];
+  for (const ref of note.refs) {
+    const current = own(parts, ref.cat)?.find(e => e.id === ref.entryId)?.product;
+    if (!current) continue;
+    const valid = inventory.filter(p => p.category===ref.cat && p.stock>0 && p.id!==current.id).filter(p => {
+      const after = checkCompatibility(replaceEntry(parts, ref, p), rules, power, categories).notes;
+      return !after.some(n => n.ruleId===note.ruleId && n.level!=="ok" && refsKey(n)===noteRefs) && errorKeys(after).every(k => allowed.has(k));
+    });
+    if (!valid.length) continue;
+    const cheapest = valid.reduce((a,b)=>b.price<a.price ? b : a);
+    const closest = valid.reduce((a,b)=>Math.abs(b.price-current.price)<Math.abs(a.price-current.price) ? b : a);
+    out.push({ ...ref, product: cheapest, kind: "cheapest" });
+    if (closest.id !== cheapest.id) out.push({ ...ref, product: closest, kind: "closest" });
+  }
+  return out;
+}
+
 // ===== Attribute Filters =====
 type AttrFilters = {
   socket?: string;
@@ -147,6 +579,8 @@ type AttrFilters = {
   storageInterface?: string;
   minPSUWatt?: number;
   coolerSocket?: string;
+  // registry fields marked `filter`: category → attribute key → wanted value
+  byCategory?: Record<string, Record<string, string>>;
 };
 function applyAttrFilters(cat: BaseCategory, items: Product[], f: AttrFilters): Product[] {
   if (!items.length) return items;
@@ -160,72 +594,211 @@ function applyAttrFilters(cat: BaseCategory, items: Product[], f: AttrFilters):
     if (f.storageInterface && cat==="Motherboard" && !((a.storage||[]) as string[]).includes(f.storageInterface)) return false;
     if (typeof f.minPSUWatt === "number" && cat==="PSU" && (a.wattage||0) < f.minPSUWatt) return false;
     if (f.coolerSocket && cat==="Cooler" && !((a.socketSupport||[]) as string[]).includes(f.coolerSocket)) return false;
+    for (const [k, v] of Object.entries(own(f.byCategory, cat) || {})) if (v && (isMissing(a[k]) || !asList(a[k]).includes(v))) return false;
     return true;
   });
 }
 
-// ===== Excel Import =====
-const normalizeHeader = (s: string) => s.toLowerCase().replace(/\s+/g, "").replace(/[^a-z0-9]/g, "");
-function parseWorkbookToProducts(file: File): Promise<Product[]> {
+// ===== SKU / Barcode =====
+const codeKey = (c: string) => c.trim().toLowerCase();
+const productCodes = (p: Product) => [p.sku, p.barcode].filter((c): c is string => !!c?.trim()).map(codeKey);
+const findByCode = (inventory: Product[], code: string) => { const k = codeKey(code); return k ? inventory.find(p => productCodes(p).includes(k)) : undefined; };
+// A code belongs to one product only, across both fields, otherwise a scan would be ambiguous
+function codeConflicts(p: Product, inventory: Product[]): string[] {
+  const out: string[] = [];
+  for (const [label, c] of [["SKU", p.sku], ["บาร์โค้ด", p.barcode]] as const) {
+    if (!c?.trim()) continue;
+    const other = inventory.find(x => x.id !== p.id && productCodes(x).includes(codeKey(c)));
+    if (other) out.push(`${label} "${c}" ซ้ำกับ ${other.name}`);
+  }
+  return out;
+}
+
+// ===== Excel Import / Export =====
+// Thai letters are kept so Thai headers don't all collapse into the same empty key
+const normalizeHeader = (s: string) => s.toLowerCase().replace(/\s+/g, "").replace(/[^a-z0-9\u0E00-\u0E7F]/g, "");
+// Attribute columns the importer recognises; the first alias of each is also the header the exporter writes
+const IMPORT_ALIASES: Record<string, string[]> = {
+  socket: ["socket", "ซ็อกเก็ต"],
+  tdp: ["tdp"],
+  ramType: ["ramtype", "แรม", "ram"],
+  formFactor: ["formfactor", "ขนาด"],
+  formFactorSupport: ["formfactorsupport", "รองรับเมนบอร์ด"],
+  pcieSlots: ["pcieslots"],
+  interface: ["interface", "อินเทอร์เฟซ"],
+  storage: ["storage", "พอร์ตเก็บข้อมูล"],
+  wattage: ["wattage", "กำลังไฟ", "w"] ,
+  sizeGB: ["sizegb", "ขนาดgb", "ความจุ"],
+  socketSupport: ["socketsupport", "รองรับซ็อกเก็ต"],
+  size: ["size", "นิ้ว"],
+  refresh: ["refresh", "รีเฟรช"],
+  license: ["license", "ไลเซนส์"],
+  modules: ["modules", "จำนวนแถว"],
+  gpuLengthMm: ["gpulengthmm", "gpulength", "ความยาวการ์ดจอ"],
+  maxGpuLengthMm: ["maxgpulengthmm", "maxgpulength", "รองรับการ์ดจอยาว"],
+  coolerHeightMm: ["coolerheightmm", "coolerheight", "ความสูงซิงก์"],
+  maxCoolerHeightMm: ["maxcoolerheightmm", "maxcoolerheight", "รองรับซิงก์สูง"],
+  ramSlots: ["ramslots", "สล็อตแรม"],
+  m2Slots: ["m2slots", "สล็อตm2"],
+  sataPorts: ["sataports", "พอร์ตsata"],
+  efficiencyRating: ["efficiencyrating", "efficiency", "80plus"],
+  pcie8Pin: ["pcie8pin", "8pin"],
+  pcie12VHPWR: ["pcie12vhpwr", "12vhpwr"],
+  coolerType: ["coolertype", "ชนิดซิงก์"],
+  fans: ["fans", "พัดลม"],
+};
+// List-valued attributes stay lists even when a cell holds a single value
+const ARRAY_ATTRIBUTES = new Set(["formFactorSupport", "storage", "socketSupport"]);
+function parseAttributeCell(key: string, v: any, lists: Set<string> = ARRAY_ATTRIBUTES): any {
+  if (lists.has(key)) return String(v).split(",").map(s=>s.trim()).filter(Boolean);
+  if (typeof v === "string" && v.includes(",")) return v.split(",").map((s:string)=>s.trim());
+  return isNaN(Number(v)) ? v : Number(v);
+}
+const formatAttributeCell = (v: any) => Array.isArray(v) ? v.join(", ") : v;
+
+// What the importer accepts: registry category names, plus the aliases above merged with every registry attribute
+type ImportSchema = { categories: string[]; aliases: Record<string, string[]>; lists: Set<string> };
+function importSchema(categories: CategoryDef[]): ImportSchema {
+  const aliases: Record<string, string[]> = Object.fromEntries(Object.entries(IMPORT_ALIASES).map(([k, v]) => [k, [...v]]));
+  const lists = new Set(ARRAY_ATTRIBUTES);
+  for (const f of categories.flatMap(c => c.fields)) {
+    const list = aliases[f.key] ||= [f.key];
+    for (const a of f.aliases || []) if (!list.includes(a)) list.push(a);
+    if (f.type === "multi") lists.add(f.key);
+  }
+  return { categories: categories.map(c => c.name), aliases, lists };
+}
+
+// Column mapping: each source header goes to a product field, a known attribute ("attr:socket"),
+// a new attribute named after the header ("attr:*") or nowhere ("skip")
+const FIELD_ALIASES: Record<string, string[]> = {
+  id: ["id"],
+  sku: ["sku", "รหัสสินค้า"],
+  barcode: ["barcode", "บาร์โค้ด", "ean", "upc"],
+  name: ["name", "สินค้า", "product"],
+  category: ["category", "หมวดหมู่", "type"],
+  price: ["price", "ราคา", "ราคาปลีก", "retail"],
+  memberPrice: ["memberPrice", "member", "ราคาสมาชิก"],
+  dealerPrice: ["dealerPrice", "dealer", "ราคาดีลเลอร์", "ราคาส่ง"],
+  cost: ["cost", "ต้นทุน"],
+  stock: ["stock", "คงเหลือ", "จำนวน"],
+  supplier: ["supplier", "vendor", "ผู้จำหน่าย", "ซัพพลายเออร์"],
+  reorderPoint: ["reorderPoint", "reorder point", "min", "จุดสั่งซื้อ"],
+  reorderTarget: ["reorderTarget", "reorder target", "max", "ระดับเป้าหมาย"],
+  attributes: ["attributes"],
+};
+const FIELD_LABELS: Record<string, string> = { id: "id (จากไฟล์ส่งออก)", sku: "SKU", barcode: "บาร์โค้ด", name: "ชื่อสินค้า", category: "หมวดหมู่", price: "ราคา", memberPrice: "ราคาสมาชิก", dealerPrice: "ราคาดีลเลอร์", cost: "ต้นทุน", stock: "สต็อก", supplier: "ผู้จำหน่าย", reorderPoint: "จุดสั่งซื้อ", reorderTarget: "ระดับเป้าหมาย", attributes: "attributes (JSON)" };
+function suggestTarget(header: string, schema: ImportSchema): string {
+  const h = normalizeHeader(header);
+  for (const [field, aliases] of Object.entries(FIELD_ALIASES)) if (aliases.some(a => normalizeHeader(a) === h)) return field;
+  for (const [key, aliases] of Object.entries(schema.aliases)) if (aliases.some(a => normalizeHeader(a) === h)) return `attr:${key}`;
+  return "skip";
+}
+
+type SheetMapping = { include: boolean; category: Category | ""; columns: Record<string, string> };
+type ImportMapping = Record<string, SheetMapping>;
+// Saved per supplier; columns are keyed by normalized header so "Price " and "price" hit the same entry
+type MappingProfile = { id: string; name: string; columns: Record<string, string>; sheetCategories: Record<string, Category> };
+
+const sheetRecords = (wb: XLSX.WorkBook, sheet: string): Record<string, any>[] => XLSX.utils.sheet_to_json(wb.Sheets[sheet], { defval: "" });
+function defaultMapping(wb: XLSX.WorkBook, schema: ImportSchema, profile?: MappingProfile): ImportMapping {
+  return Object.fromEntries(wb.SheetNames.map(sheet => {
+    const records = sheetRecords(wb, sheet);
+    const columns = Object.fromEntries(Object.keys(records[0] || {}).map(h => [h, profile?.columns[normalizeHeader(h)] ?? suggestTarget(h, schema)]));
+    return [sheet, { include: records.length > 0, category: profile?.sheetCategories[sheet] ?? "", columns }];
+  }));
+}
+function mappingToProfile(name: string, mapping: ImportMapping, id = uid()): MappingProfile {
+  const columns: Record<string, string> = {}, sheetCategories: Record<string, Category> = {};
+  for (const [sheet, m] of Object.entries(mapping)) {
+    if (!m.include) continue;
+    for (const [h, target] of Object.entries(m.columns)) columns[normalizeHeader(h)] = target;
+    if (m.category) sheetCategories[sheet] = m.category;
+  }
+  return { id, name, columns, sheetCategories };
+}
+
+// One parsed sheet row; `blank` lists optional fields the row left empty so an update keeps the stored value
+type ImportRow = { sheet: string; row: number; hasId: boolean; product: Product; blank: ("cost"|"memberPrice"|"dealerPrice"|"stock"|"sku"|"barcode"|"supplier"|"reorderPoint"|"reorderTarget")[]; errors: string[] };
+// "1,290" / "฿990" are common in price lists; blank cells come back undefined
+const readNumber = (v: any): number | undefined => v === undefined || v === "" ? undefined : typeof v === "number" ? v : Number(String(v).replace(/[,\s฿]/g, ""));
+
+function workbookToRows(wb: XLSX.WorkBook, schema: ImportSchema, mapping: ImportMapping = defaultMapping(wb, schema)): ImportRow[] {
+  return wb.SheetNames.filter(sheet => mapping[sheet]?.include).flatMap(sheet => {
+    const m = mapping[sheet];
+    return sheetRecords(wb, sheet).map((record, i) => {
+      // the first non-empty column mapped to a target wins
+      const fields: Record<string, any> = {};
+      const attributes: Record<string, any> = {};
+      for (const [h, target] of Object.entries(m.columns)) {
+        const v = record[h];
+        if (target === "skip" || v === undefined || v === "") continue;
+        if (target.startsWith("attr:")) {
+          const key = target === "attr:*" ? h.trim() : target.slice(5);
+          if (!(key in attributes)) attributes[key] = parseAttributeCell(key, v, schema.lists);
+        }
+        else if (!(target in fields)) fields[target] = v;
+      }
+      const errors: string[] = [];
+      const blank: ImportRow["blank"] = [];
+
+      const rawCategory = String(fields.category || m.category || "").trim();
+      const category = schema.categories.find(c => c.toLowerCase() === rawCategory.toLowerCase());
+      if (!rawCategory) errors.push("ไม่ระบุหมวดหมู่");
+      else if (!category) errors.push(`ไม่รู้จักหมวดหมู่ "${rawCategory}"`);
+      const name = String(fields.name ?? "").trim();
+      if (!name) errors.push("ไม่มีชื่อสินค้า");
+
+      const number = (label: string, raw: any) => {
+        const n = readNumber(raw);
+        if (n === undefined) return undefined;
+        if (isNaN(n)) { errors.push(`${label} "${raw}" ไม่ใช่ตัวเลข`); return 0; }
+        if (n < 0) { errors.push(`${label}ติดลบ`); return 0; }
+        return n;
+      };
+      const price = number("ราคา", fields.price);
+      if (price === undefined) errors.push("ไม่มีราคา");
+      const memberPrice = number("ราคาสมาชิก", fields.memberPrice);
+      if (memberPrice === undefined) blank.push("memberPrice");
+      const dealerPrice = number("ราคาดีลเลอร์", fields.dealerPrice);
+      if (dealerPrice === undefined) blank.push("dealerPrice");
+      const cost = number("ต้นทุน", fields.cost);
+      if (cost === undefined) blank.push("cost");
+      const stock = number("สต็อก", fields.stock);
+      if (stock === undefined) blank.push("stock");
+      const sku = String(fields.sku ?? "").trim() || undefined;
+      if (!sku) blank.push("sku");
+      const barcode = String(fields.barcode ?? "").trim() || undefined;
+      if (!barcode) blank.push("barcode");
+      const supplier = String(fields.supplier ?? "").trim() || undefined;
+      if (!supplier) blank.push("supplier");
+      const reorderPoint = number("จุดสั่งซื้อ", fields.reorderPoint);
+      if (reorderPoint === undefined) blank.push("reorderPoint");
+      const reorderTarget = number("ระดับเป้าหมาย", fields.reorderTarget);
+      if (reorderTarget === undefined) blank.push("reorderTarget");
+
+      const attrRaw = fields.attributes;
+      if (attrRaw) {
+        try { const extra = typeof attrRaw === "string" ? JSON.parse(attrRaw) : attrRaw; Object.assign(attributes, extra); }
+        catch { errors.push("คอลัมน์ attributes ไม่ใช่ JSON ที่ถูกต้อง"); }
+      }
+
+      // Rows exported from this app carry their id, so a re-import keeps the same products
+      const hasId = !!fields.id;
+      const product: Product = { id: hasId ? String(fields.id) : uid(), name, category: category || rawCategory, price: price ?? 0, stock: stock ?? 0, cost, memberPrice, dealerPrice, sku, barcode, supplier, reorderPoint, reorderTarget, attributes };
+      // +2: sheet rows are 1-based and the first one holds the headers
+      return { sheet, row: i + 2, hasId, product, blank, errors };
+    });
+  });
+}
+function readWorkbook(file: File): Promise<XLSX.WorkBook> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
         const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const wb = XLSX.read(data, { type: "array" });
-        const ws = wb.Sheets[wb.SheetNames[0]];
-        const json: any[] = XLSX.utils.sheet_to_json(ws, { defval: "" });
-        const out: Product[] = [];
-        for (const row of json) {
-          const keys = Object.keys(row);
-          const map: Record<string, any> = {};
-          keys.forEach(k => (map[normalizeHeader(k)] = row[k]));
-
-          const rawCategory = (map["category"] || map["หมวดหมู่"] || map["type"]) + "";
-          const category = (ALL_CATEGORIES.find(c => c.toLowerCase() === rawCategory.toLowerCase()) || "CPU") as Category;
-          const name = (map["name"] || map["สินค้า"] || map["product"] || "Unnamed") + "";
-          const price = Number(map["price"] || map["ราคา"] || 0);
-          const cost = Number(map["cost"] || map["ต้นทุน"] || 0);
-          const stock = Number(map["stock"] || map["คงเหลือ"] || map["จำนวน"] || 0);
-
-          const attributes: Record<string, any> = {};
-          const aliasPairs: Record<string, string[]> = {
-            socket: ["socket", "ซ็อกเก็ต"],
-            tdp: ["tdp"],
-            ramType: ["ramtype", "แรม", "ram"],
-            formFactor: ["formfactor", "ขนาด"],
-            formFactorSupport: ["formfactorsupport", "รองรับเมนบอร์ด"],
-            pcieSlots: ["pcieslots"],
-            interface: ["interface", "อินเทอร์เฟซ"],
-            storage: ["storage", "พอร์ตเก็บข้อมูล"],
-            wattage: ["wattage", "กำลังไฟ", "w"] ,
-            sizeGB: ["sizegb", "ขนาดgb", "ความจุ"],
-            socketSupport: ["socketsupport", "รองรับซ็อกเก็ต"],
-            size: ["size", "นิ้ว"],
-            refresh: ["refresh", "รีเฟรช"],
-            license: ["license", "ไลเซนส์"],
-            cost: ["cost","ต้นทุน"]
-          };
-          for (const [key, aliases] of Object.entries(aliasPairs)) {
-            for (const a of aliases) {
-              const v = map[normalizeHeader(a)];
-              if (v !== undefined && v !== "") {
-                if (key==="cost"){ continue; }
-                if (typeof v === "string" && v.includes(",")) attributes[key] = v.split(",").map((s:string)=>s.trim());
-                else attributes[key] = isNaN(Number(v)) ? v : Number(v);
-                break;
-              }
-            }
-          }
-
-          const attrRaw = map["attributes"];
-          if (attrRaw) {
-            try { const extra = typeof attrRaw === "string" ? JSON.parse(attrRaw) : attrRaw; Object.assign(attributes, extra); } catch {}
-          }
-
-          out.push({ id: uid(), name, category, price, stock, cost, attributes });
-        }
-        resolve(out);
+        // CSV cells stay text so SKUs / barcodes keep their leading zeros; numbers are parsed per column later
+        resolve(XLSX.read(data, { type: "array", raw: /\.csv$/i.test(file.name) }));
       } catch (err) { reject(err); }
     };
     reader.onerror = reject;
@@ -233,42 +806,298 @@ function parseWorkbookToProducts(file: File): Promise<Product[]> {
   });
 }
 
-// ===== Icons =====
-const categoryIcon: Record<Category, React.ReactNode> = {
-  CPU: <Cpu className="w-4 h-4" />,
-  Motherboard: <HardDrive className="w-4 h-4" />,
-  GPU: <MonitorIcon className="w-4 h-4" />,
-  RAM: <MemoryStick className="w-4 h-4" />,
-  Storage: <HardDrive className="w-4 h-4" />,
-  PSU: <Power className="w-4 h-4" />,
-  Case: <CaseSensitive className="w-4 h-4" />,
-  Cooler: <Wrench className="w-4 h-4" />,
-  Monitor: <MonitorIcon className="w-4 h-4" />,
-  Software: <Sparkles className="w-4 h-4" />,
-  SSD: <HardDrive className="w-4 h-4" />,
+function ImportMapper({ wb, schema, mapping, setMapping, profiles, onSaveProfile, onDeleteProfile, onNext, onCancel }:{ wb: XLSX.WorkBook; schema: ImportSchema; mapping: ImportMapping; setMapping:(m: ImportMapping)=>void; profiles: MappingProfile[]; onSaveProfile:(p: MappingProfile)=>void; onDeleteProfile:(id: string)=>void; onNext:()=>void; onCancel:()=>void }){
+  const [profileId, setProfileId] = useState("");
+  const [profileName, setProfileName] = useState("");
+  const sheets = useMemo(() => wb.SheetNames.map(sheet => { const records = sheetRecords(wb, sheet); return { sheet, count: records.length, sample: records[0] || {} }; }), [wb]);
+  const targets: [string, string][] = [
+    ["skip", "— ไม่นำเข้า —"],
+    ...Object.entries(FIELD_LABELS),
+    ...Object.keys(schema.aliases).map(k => [`attr:${k}`, `แอตทริบิวต์: ${k}`] as [string, string]),
+    ["attr:*", "แอตทริบิวต์ใหม่ (ใช้ชื่อคอลัมน์)"],
+  ];
+  const update = (sheet: string, patch: Partial<SheetMapping>) => setMapping({ ...mapping, [sheet]: { ...mapping[sheet], ...patch } });
+  const applyProfile = (id: string) => { setProfileId(id); const p = profiles.find(x => x.id === id); if (p) { setMapping(defaultMapping(wb, schema, p)); setProfileName(p.name); } };
+  const saveProfile = () => {
+    const name = profileName.trim();
+    if (!name) { toast.error("ตั้งชื่อโปรไฟล์ก่อน"); return; }
+    const same = profiles.find(p => p.name === name);
+    const profile = mappingToProfile(name, mapping, same?.id);
+    onSaveProfile(profile); setProfileId(profile.id);
+    toast.success(same ? `อัปเดตโปรไฟล์ "${name}" แล้ว` : `บันทึกโปรไฟล์ "${name}" แล้ว`);
+  };
+  const included = sheets.filter(s => mapping[s.sheet]?.include);
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="w-56"><Label className="text-xs">โปรไฟล์การจับคู่</Label>
+          <Select value={profileId} onValueChange={applyProfile}>
+            <SelectTrigger><SelectValue placeholder={profiles.length ? "เลือกโปรไฟล์" : "ยังไม่มีโปรไฟล์"}/></SelectTrigger>
+            <SelectContent>{profiles.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}</SelectContent>
+          </Select>
+        </div>
+        {profileId && <Button variant="secondary" size="icon" title="ลบโปรไฟล์" onClick={()=>{ onDeleteProfile(profileId); setProfileId(""); }}><Trash2 className="w-4 h-4"/></Button>}
+        <div className="flex-1 min-w-[180px]"><Label className="text-xs">ชื่อโปรไฟล์ (เช่น ชื่อซัพพลายเออร์)</Label><Input value={profileName} onChange={(e)=>setProfileName(e.target.value)}/></div>
+        <Button variant="secondary" onClick={saveProfile}><Save className="w-4 h-4 mr-2"/> บันทึกโปรไฟล์</Button>
+      </div>
+      <div className="max-h-[420px] overflow-auto space-y-3">
+        {sheets.map(({ sheet, count, sample }) => {
+          const m = mapping[sheet];
+          const mapped = Object.values(m.columns);
+          const missing = [!mapped.includes("name") && "ชื่อสินค้า", !mapped.includes("price") && "ราคา", !mapped.includes("category") && !m.category && "หมวดหมู่"].filter(Boolean);
+          return (
+            <div key={sheet} className="border rounded-2xl p-3 space-y-2">
+              <div className="flex flex-wrap items-center gap-3">
+                <label className="flex items-center gap-2 font-medium"><input type="checkbox" checked={m.include} disabled={!count} onChange={(e)=>update(sheet, { include: e.target.checked })}/> {sheet}</label>
+                <span className="text-xs text-muted-foreground">{count} แถว</span>
+                {m.include && (
+                  <div className="ml-auto w-56">
+                    <Select value={m.category} onValueChange={(v)=>update(sheet, { category: v as Category | "" })}>
+                      <SelectTrigger><SelectValue placeholder="หมวดหมู่ตามคอลัมน์"/></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="">หมวดหมู่ตามคอลัมน์</SelectItem>
+                        {schema.categories.map(c => <SelectItem key={c} value={c}>ทั้งชีต: {c}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+              {m.include && missing.length>0 && <div className="text-xs text-amber-700">ยังไม่ได้จับคู่: {missing.join(", ")}</div>}
+              {m.include && Object.keys(m.columns).map(h => (
+                <div key={h} className="grid grid-cols-12 gap-2 items-center text-sm">
+                  <div className="col-span-4 truncate font-medium" title={h}>{h}</div>
+                  <div className="col-span-3 truncate text-xs text-muted-foreground" title={String(sample[h] ?? "")}>{String(sample[h] ?? "") || "-"}</div>
+                  <div className="col-span-5">
+                    <Select value={m.columns[h]} onValueChange={(v)=>update(sheet, { columns: { ...m.columns, [h]: v } })}>
+                      <SelectTrigger><SelectValue/></SelectTrigger>
+                      <SelectContent>{targets.map(([v, label]) => <SelectItem key={v} value={v}>{label}</SelectItem>)}</SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+      <DialogFooter>
+        <Button variant="secondary" onClick={onCancel}>ยกเลิก</Button>
+        <Button onClick={onNext} disabled={!included.length} className={included.length ? "" : "opacity-50 cursor-not-allowed"}>ถัดไป: ตรวจสอบ ({included.reduce((s,x)=>s+x.count,0)} แถว)</Button>
+      </DialogFooter>
+    </div>
+  );
+}
+
+// ===== Import preview =====
+type ImportStatus = "new" | "updated" | "unchanged" | "invalid";
+type ImportPlanRow = { sheet: string; row: number; status: ImportStatus; product: Product; existing?: Product; changes: FieldChange[]; reasons: string[] };
+const IMPORT_FIELDS = ["name","category","price","memberPrice","dealerPrice","cost","stock","sku","barcode","supplier","reorderPoint","reorderTarget"] as const;
+const nameKey = (name: string) => name.trim().toLowerCase().replace(/\s+/g, " ");
+
+// Dry run: rows match existing products by id (our own exports), then SKU / barcode, then name; nothing is written here
+function planImport(rows: ImportRow[], inventory: Product[]): ImportPlanRow[] {
+  const byId = new Map(inventory.map(p => [p.id, p]));
+  const byCode = new Map<string, Product>(), byName = new Map<string, Product>();
+  for (const p of inventory) {
+    for (const c of productCodes(p)) if (!byCode.has(c)) byCode.set(c, p);
+    if (!byName.has(nameKey(p.name))) byName.set(nameKey(p.name), p);
+  }
+  const seen = new Map<string, string>();
+  const multiSheet = new Set(rows.map(r => r.sheet)).size > 1;
+  return rows.map(r => {
+    const p = r.product;
+    const at = { sheet: r.sheet, row: r.row };
+    if (r.errors.length) return { ...at, status: "invalid", product: p, changes: [], reasons: r.errors };
+    // A same-named product is only the same item if it has no codes of its own that the row disagrees with;
+    // a match then fills the row's SKU / barcode in on that product
+    const codes = productCodes(p);
+    const named = byName.get(nameKey(p.name));
+    const existing = (r.hasId ? byId.get(p.id) : undefined) || codes.map(c => byCode.get(c)).find(Boolean) || (named && productCodes(named).every(c => codes.includes(c)) ? named : undefined);
+
+    // Columns the sheet doesn't have (no stock in a supplier price list, no attribute columns) keep their stored values
+    const merged: Product = existing ? { ...p, id: existing.id, attributes: { ...existing.attributes, ...p.attributes } } : p;
+    if (existing) for (const f of r.blank) (merged as any)[f] = existing[f];
+    const keys = [`id:${merged.id}`, ...productCodes(merged).map(c => `code:${c}`), ...(existing || codes.length ? [] : [`name:${nameKey(p.name)}`])];
+    const dup = keys.map(k => seen.get(k)).find(Boolean);
+    if (dup) return { ...at, status: "invalid", product: p, existing, changes: [], reasons: [`ซ้ำกับแถว ${dup}`] };
+    keys.forEach(k => seen.set(k, multiSheet ? `${r.sheet}!${r.row}` : String(r.row)));
+    const conflicts = codeConflicts(merged, inventory);
+    if (conflicts.length) return { ...at, status: "invalid", product: p, existing, changes: [], reasons: conflicts };
+    if (!existing) return { ...at, status: "new", product: p, changes: [], reasons: [] };
+
+    const changes = diffProducts(existing, merged, IMPORT_FIELDS);
+    return { ...at, status: changes.length ? "updated" : "unchanged", product: merged, existing, changes, reasons: [] };
+  });
+}
+function applyImport(inventory: Product[], plan: ImportPlanRow[]): Product[] {
+  const updates = new Map(plan.filter(r => r.status === "updated").map(r => [r.product.id, r.product]));
+  const added = plan.filter(r => r.status === "new").map(r => r.product);
+  return [...added, ...inventory.map(p => updates.get(p.id) || p)];
+}
+
+const IMPORT_STATUS: Record<ImportStatus, { label: string; className: string }> = {
+  new: { label: "ใหม่", className: "bg-emerald-100 text-emerald-800" },
+  updated: { label: "อัปเดต", className: "bg-sky-100 text-sky-800" },
+  unchanged: { label: "ไม่เปลี่ยน", className: "bg-slate-100 text-slate-700" },
+  invalid: { label: "ผิดพลาด", className: "bg-red-100 text-red-800" },
+};
+function ImportPreview({ fileName, plan, onConfirm, onBack }:{ fileName: string; plan: ImportPlanRow[]; onConfirm:()=>void; onBack:()=>void }){
+  const [show, setShow] = useState<ImportStatus | "all">("all");
+  const count = (st: ImportStatus) => plan.filter(r => r.status === st).length;
+  const writes = count("new") + count("updated");
+  const rows = show === "all" ? plan : plan.filter(r => r.status === show);
+  const multiSheet = new Set(plan.map(r => r.sheet)).size > 1;
+  return (
+    <div className="space-y-3">
+      <div className="text-sm text-muted-foreground">{fileName} — {plan.length} แถว · ยังไม่มีการบันทึกจนกว่าจะกดยืนยัน</div>
+      <div className="flex flex-wrap gap-2">
+        <Chip active={show==="all"} onClick={()=>setShow("all")}>ทั้งหมด {plan.length}</Chip>
+        {(Object.keys(IMPORT_STATUS) as ImportStatus[]).map(st => <Chip key={st} active={show===st} onClick={()=>setShow(st)}>{IMPORT_STATUS[st].label} {count(st)}</Chip>)}
+      </div>
+      <div className="border rounded-2xl overflow-hidden">
+        <div className="grid grid-cols-12 bg-muted/50 px-4 py-2 text-sm font-semibold">
+          <div className="col-span-1">แถว</div><div className="col-span-2">สถานะ</div><div className="col-span-4">สินค้า</div><div className="col-span-5">รายละเอียด</div>
+        </div>
+        <div className="max-h-[360px] overflow-auto">
+          {rows.length===0 && <div className="px-4 py-3 text-muted-foreground">ไม่มีรายการ</div>}
+          {rows.map(r => (
+            <div key={`${r.sheet}!${r.row}`} className="grid grid-cols-12 items-start px-4 py-2 border-t text-sm">
+              <div className="col-span-1 truncate" title={r.sheet}>{multiSheet ? `${r.sheet}!${r.row}` : r.row}</div>
+              <div className="col-span-2"><Badge className={IMPORT_STATUS[r.status].className}>{IMPORT_STATUS[r.status].label}</Badge></div>
+              <div className="col-span-4 min-w-0">
+                <div className="truncate" title={r.product.name}>{r.product.name || "-"}</div>
+                <div className="text-xs text-muted-foreground">{r.product.category} · {baht(r.product.price)}</div>
+              </div>
+              <div className="col-span-5 space-y-0.5 text-xs">
+                {r.reasons.map(m => <div key={m} className="text-red-700">{m}</div>)}
+                {r.changes.map(c => <div key={c.field}>{fieldLabel[c.field] || c.field}: <span className="line-through opacity-70">{showValue(c.field, c.from)}</span> → <span className="font-medium">{showValue(c.field, c.to)}</span></div>)}
+                {r.status==="new" && <div className="text-muted-foreground">สต็อก {r.product.stock}</div>}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+      <DialogFooter>
+        <Button variant="secondary" onClick={onBack}>ย้อนกลับ</Button>
+        <Button onClick={onConfirm} disabled={!writes} className={writes ? "" : "opacity-50 cursor-not-allowed"}><CheckCircle2 className="w-4 h-4 mr-2"/> ยืนยันนำเข้า {writes} รายการ</Button>
+      </DialogFooter>
+    </div>
+  );
+}
+
+// An attribute gets its own column only when the importer would read the cell back to the same value;
+// everything else (RAM "type", empty lists, numeric-looking strings, custom keys) goes into the attributes JSON column
+function productsToRows(products: Product[]): Record<string, any>[] {
+  const fits = (key: string, v: any) => key in IMPORT_ALIASES && !isMissing(v) && JSON.stringify(parseAttributeCell(key, formatAttributeCell(v))) === JSON.stringify(v);
+  const attrCols = Object.keys(IMPORT_ALIASES).filter(k => products.some(p => fits(k, p.attributes?.[k])));
+  return products.map(p => {
+    const row: Record<string, any> = { id: p.id, sku: p.sku ?? "", barcode: p.barcode ?? "", name: p.name, category: p.category, price: p.price, memberPrice: p.memberPrice ?? "", dealerPrice: p.dealerPrice ?? "", cost: p.cost ?? "", stock: p.stock, supplier: p.supplier ?? "", reorderPoint: p.reorderPoint ?? "", reorderTarget: p.reorderTarget ?? "" };
+    const rest: Record<string, any> = {};
+    for (const k of attrCols) row[k] = "";
+    for (const [k, v] of Object.entries(p.attributes || {})) {
+      if (attrCols.includes(k) && fits(k, v)) row[k] = formatAttributeCell(v);
+      else rest[k] = v;
+    }
+    row.attributes = Object.keys(rest).length ? JSON.stringify(rest) : "";
+    return row;
+  });
+}
+function exportInventory(products: Product[], format: "xlsx"|"csv") {
+  const ws = XLSX.utils.json_to_sheet(productsToRows(products));
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, "Inventory");
+  const stamp = new Date().toISOString().slice(0, 10);
+  XLSX.writeFile(wb, `ubonspec-inventory-${stamp}.${format}`, { bookType: format });
+}
+
+// ===== Category registry =====
+type AttrFieldType = "text" | "number" | "select" | "multi";
+// One attribute of a category; drives the product editor, import column suggestions and builder filters
+type AttrField = { key: string; label: string; type: AttrFieldType; options?: string[]; unit?: string; placeholder?: string; aliases?: string[]; filter?: boolean };
+type CategoryDef = { name: string; kind: "base" | "addon"; label?: string; icon: string; maxQty: number; builtin?: boolean; fields: AttrField[] };
+
+const CATEGORY_ICONS: Record<string, React.ComponentType<{ className?: string }>> = {
+  cpu: Cpu, drive: HardDrive, display: MonitorIcon, memory: MemoryStick, power: Power, case: CaseSensitive, tool: Wrench,
+  sparkles: Sparkles, fan: Fan, keyboard: Keyboard, mouse: Mouse, network: Wifi, ups: BatteryCharging, audio: Headphones, box: Package,
 };
+const num = (key: string, label: string, unit?: string, placeholder?: string): AttrField => ({ key, label, type: "number", unit, placeholder });
+const FORM_FACTORS = ["ATX","mATX","ITX"];
+const STORAGE_INTERFACES = ["M.2 NVMe","SATA"];
+// Max quantity of a base category is per build; slot limits of the chosen motherboard are checked by compatibility rules
+const DEFAULT_CATEGORIES: CategoryDef[] = [
+  { name: "CPU", kind: "base", icon: "cpu", maxQty: 1, builtin: true, fields: [
+    { key: "socket", label: "Socket", type: "text", placeholder: "เช่น AM5, LGA1700" }, num("tdp", "TDP", "W"),
+  ] },
+  { name: "Motherboard", kind: "base", icon: "drive", maxQty: 1, builtin: true, fields: [
+    { key: "socket", label: "Socket", type: "text" },
+    { key: "ramType", label: "RAM Type", type: "select", options: ["DDR5","DDR4"], placeholder: "เลือกชนิด RAM" },
+    { key: "formFactor", label: "Form Factor", type: "select", options: FORM_FACTORS, placeholder: "เลือกขนาดบอร์ด" },
+    num("pcieSlots", "PCIe Slots"), num("ramSlots", "RAM Slots"), num("m2Slots", "M.2 Slots"), num("sataPorts", "SATA Ports"),
+    { key: "storage", label: "Storage Ports", type: "multi", options: STORAGE_INTERFACES },
+  ] },
+  { name: "GPU", kind: "base", icon: "display", maxQty: 2, builtin: true, fields: [
+    num("tdp", "TDP", "W"), num("gpuLengthMm", "ความยาวการ์ด", "มม."), num("pcie8Pin", "ใช้หัว PCIe 8-pin"), num("pcie12VHPWR", "ใช้หัว 12VHPWR", undefined, "ว่างถ้าไม่ใช้"),
+  ] },
+  { name: "RAM", kind: "base", icon: "memory", maxQty: 4, builtin: true, fields: [
+    { key: "type", label: "ชนิดแรม", type: "select", options: ["DDR5","DDR4"], placeholder: "DDR5 / DDR4" },
+    { ...num("sizeGB", "ขนาด", "GB"), filter: true }, num("modules", "จำนวนแถวต่อชุด", undefined, "เช่น 2 (2x8GB)"),
+  ] },
+  { name: "Storage", kind: "base", icon: "drive", maxQty: 6, builtin: true, fields: [
+    { key: "interface", label: "Interface", type: "select", options: STORAGE_INTERFACES, placeholder: "M.2 NVMe / SATA" },
+  ] },
+  { name: "PSU", kind: "base", icon: "power", maxQty: 1, builtin: true, fields: [
+    num("wattage", "กำลังไฟ", "W"),
+    { key: "efficiencyRating", label: "มาตรฐาน 80 Plus", type: "select", options: Object.keys(PSU_EFFICIENCY), placeholder: "เลือกมาตรฐาน", filter: true },
+    num("pcie8Pin", "หัว PCIe 8-pin"), num("pcie12VHPWR", "หัว 12VHPWR"),
+  ] },
+  { name: "Case", kind: "base", icon: "case", maxQty: 1, builtin: true, fields: [
+    { key: "formFactorSupport", label: "รองรับเมนบอร์ด", type: "multi", options: FORM_FACTORS },
+    num("maxGpuLengthMm", "การ์ดจอยาวสุด", "มม."), num("maxCoolerHeightMm", "ซิงก์ CPU สูงสุด", "มม."), num("fans", "พัดลมที่ติดมากับเคส"),
+  ] },
+  { name: "Cooler", kind: "base", icon: "tool", maxQty: 4, builtin: true, fields: [
+    { key: "socketSupport", label: "รองรับซ็อกเก็ต", type: "multi", options: ["AM5","LGA1700"] },
+    num("coolerHeightMm", "ความสูงซิงก์", "มม.", "ว่างได้ (ชุดน้ำ / พัดลม)"),
+    { key: "coolerType", label: "ชนิด", type: "select", options: ["Air","AIO","Fan"], placeholder: "Air / AIO / Fan", filter: true },
+    num("fans", "จำนวนพัดลม"),
+  ] },
+  { name: "Monitor", kind: "addon", icon: "display", maxQty: 99, builtin: true, fields: [num("size", "ขนาด", "นิ้ว"), num("refresh", "รีเฟรช", "Hz")] },
+  { name: "Software", kind: "addon", icon: "sparkles", maxQty: 99, builtin: true, fields: [{ key: "license", label: "ลิขสิทธิ์", type: "text" }] },
+  { name: "SSD", kind: "addon", label: "SSD (เพิ่มไดรฟ์เสริม)", icon: "drive", maxQty: 99, builtin: true, fields: [
+    { key: "interface", label: "Interface", type: "select", options: STORAGE_INTERFACES, placeholder: "M.2 NVMe / SATA" },
+  ] },
+];
+// Built-in categories can be edited but not removed; any missing from storage are appended
+const migrateCategories = (list: CategoryDef[]) => [...list, ...DEFAULT_CATEGORIES.filter(d => !list.some(c => c.name === d.name))];
+const baseCategoryNames = (categories: CategoryDef[]) => categories.filter(c => c.kind === "base").map(c => c.name);
+const isBaseCategory = (categories: CategoryDef[], name: string) => categories.some(c => c.name === name && c.kind === "base");
+const maxQtyOf = (categories: CategoryDef[], name: string) => categories.find(c => c.name === name)?.maxQty ?? 1;
+function categoryIcon(categories: CategoryDef[], name: string) {
+  const Icon = CATEGORY_ICONS[categories.find(c => c.name === name)?.icon || ""] || Package;
+  return <Icon className="w-4 h-4" />;
+}
 
 // ===== Small UI helpers =====
-function Chip({ children, onClick, active=false }:{ children: React.ReactNode; onClick?: ()=>void; active?: boolean }){
-  return <Button type="button" onClick={onClick} variant="secondary" className={`h-7 px-3 rounded-full ${active? 'bg-primary/90 text-white hover:bg-primary' : ''}`}>{children}</Button>;
+function Chip({ children, onClick, active=false, disabled=false }:{ children: React.ReactNode; onClick?: ()=>void; active?: boolean; disabled?: boolean }){
+  return <Button type="button" onClick={onClick} disabled={disabled} variant="secondary" className={`h-7 px-3 rounded-full ${active? 'bg-primary/90 text-white hover:bg-primary' : ''} ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}>{children}</Button>;
 }
 function ClearChip({ label, onClear }:{ label:string; onClear:()=>void }){
   return <span className="inline-flex items-center gap-1 bg-slate-100 text-slate-700 px-2.5 h-7 rounded-full text-xs">{label}<button className="opacity-70 hover:opacity-100" onClick={onClear} title="ล้าง"><X className="w-3.5 h-3.5"/></button></span>;
 }
 
 // ===== Inventory Table =====
-function InventoryTable({ items, onEdit, onDelete }:{ items: Product[]; onEdit:(p:Product)=>void; onDelete:(id:string)=>void; }){
+function InventoryTable({ items, categories, onEdit, onDelete, onHistory }:{ items: Product[]; categories: CategoryDef[]; onEdit:(p:Product)=>void; onDelete:(id:string)=>void; onHistory:(p:Product)=>void; }){
   return (<div className="border rounded-2xl overflow-hidden">
     <div className="grid grid-cols-12 bg-muted/50 px-4 py-2 text-sm font-semibold">
       <div className="col-span-5">สินค้า</div><div className="col-span-2">หมวด</div><div className="col-span-2 text-right">ราคา</div><div className="col-span-1 text-right">สต็อก</div><div className="col-span-2 text-right">จัดการ</div>
     </div>
     <div className="max-h-[360px] overflow-auto">
       {items.map(p=>(<div key={p.id} className="grid grid-cols-12 items-center px-4 py-2 border-t hover:bg-muted/30 text-sm">
-        <div className="col-span-5 truncate flex items-center gap-2"><Badge variant="secondary" className="rounded-xl">{categoryIcon[p.category]}<span className="ml-2">{p.category}</span></Badge><span className="font-medium truncate" title={p.name}>{p.name}</span></div>
+        <div className="col-span-5 truncate flex items-center gap-2"><Badge variant="secondary" className="rounded-xl">{categoryIcon(categories, p.category)}<span className="ml-2">{p.category}</span></Badge><span className="min-w-0"><span className="block font-medium truncate" title={p.name}>{p.name}</span>{(p.sku || p.barcode) && <span className="block text-xs text-muted-foreground truncate">{[p.sku, p.barcode].filter(Boolean).join(" · ")}</span>}</span></div>
         <div className="col-span-2">{(p as any).attributes.socket || (p as any).attributes.type || (p as any).attributes.size || (p as any).attributes.license || (p as any).attributes.interface || "-"}</div>
-        <div className="col-span-2 text-right">{baht(p.price)}{typeof p.cost==="number" ? <span className="text-xs text-muted-foreground"> (ทุน {baht(p.cost)})</span> : null}</div>
-        <div className="col-span-1 text-right">{p.stock}</div>
+        <div className="col-span-2 text-right">{baht(p.price)}{typeof p.cost==="number" ? <span className="text-xs text-muted-foreground"> (ทุน {baht(p.cost)})</span> : null}
+          {(typeof p.memberPrice==="number" || typeof p.dealerPrice==="number") && <div className="text-xs text-muted-foreground">{[typeof p.memberPrice==="number" && `สมาชิก ${baht(p.memberPrice)}`, typeof p.dealerPrice==="number" && `ดีลเลอร์ ${baht(p.dealerPrice)}`].filter(Boolean).join(" · ")}</div>}</div>
+        <div className={`col-span-1 text-right ${stockStatus(p)==="out" ? "text-red-600 font-medium" : stockStatus(p)==="low" ? "text-amber-600 font-medium" : ""}`} title={`จุดสั่งซื้อ ${reorderPointOf(p)}`}>{p.stock}</div>
         <div className="col-span-2 flex justify-end gap-2">
+          <Button variant="secondary" onClick={()=>onHistory(p)} title="ประวัติการแก้ไข"><History className="w-4 h-4"/></Button>
           <Button variant="secondary" onClick={()=>onEdit(p)} title="แก้ไข"><Edit className="w-4 h-4"/></Button>
           <Button variant="destructive" onClick={()=>onDelete(p.id)} title="ลบ"><Trash2 className="w-4 h-4"/></Button>
         </div>
@@ -278,118 +1107,61 @@ function InventoryTable({ items, onEdit, onDelete }:{ items: Product[]; onEdit:(
 }
 
 // ===== Editors =====
-function CategoryAttrFields({ category, attr, setAttr }:{ category: Category; attr: Record<string, any>; setAttr: (a:Record<string,any>)=>void; }){
-  const set = (k:string, v:any)=> setAttr({ ...attr, [k]: v });
+function SchemaAttrFields({ fields, attr, setAttr }:{ fields: AttrField[]; attr: Record<string, any>; setAttr: (a:Record<string,any>)=>void; }){
+  // an emptied field is removed so rules treat it as missing rather than 0
+  const set = (k:string, v:any)=> { const next = { ...attr }; if (v===undefined || v==="") delete next[k]; else next[k] = v; setAttr(next); };
   const toggleInArray = (k:string, value:string)=>{
     const arr = Array.isArray(attr[k]) ? [...attr[k]] : [];
     const i = arr.indexOf(value);
     if (i>=0) arr.splice(i,1); else arr.push(value);
     set(k, arr);
   };
-
-  if (category==="CPU"){
-    return (<div className="grid grid-cols-2 gap-3">
-      <div><Label>Socket</Label><Input value={attr.socket||""} onChange={e=>set("socket", e.target.value)} placeholder="เช่น AM5, LGA1700"/></div>
-      <div><Label>TDP (W)</Label><Input type="number" value={attr.tdp||""} onChange={e=>set("tdp", Number(e.target.value||0))}/></div>
-    </div>);
-  }
-  if (category==="Motherboard"){
-    const ramTypes = ["DDR5","DDR4"];
-    const formFactors = ["ATX","mATX","ITX"];
-    const storageIfs = ["M.2 NVMe","SATA"];
-    return (<div className="space-y-3">
-      <div className="grid grid-cols-2 gap-3">
-        <div><Label>Socket</Label><Input value={attr.socket||""} onChange={e=>set("socket", e.target.value)} /></div>
-        <div>
-          <Label>RAM Type</Label>
-          <Select value={attr.ramType||""} onValueChange={(v)=>set("ramType", v)}>
-            <SelectTrigger><SelectValue placeholder="เลือกชนิด RAM"/></SelectTrigger>
-            <SelectContent>{ramTypes.map(x=><SelectItem key={x} value={x}>{x}</SelectItem>)}</SelectContent>
-          </Select>
-        </div>
-        <div>
-          <Label>Form Factor</Label>
-          <Select value={attr.formFactor||""} onValueChange={(v)=>set("formFactor", v)}>
-            <SelectTrigger><SelectValue placeholder="เลือกขนาดบอร์ด"/></SelectTrigger>
-            <SelectContent>{formFactors.map(x=><SelectItem key={x} value={x}>{x}</SelectItem>)}</SelectContent>
-          </Select>
+  const label = (f: AttrField) => f.unit ? `${f.label} (${f.unit})` : f.label;
+  const scalar = fields.filter(f => f.type !== "multi");
+  if (!fields.length) return null;
+
+  return (<div className="space-y-3">
+    {scalar.length>0 && <div className="grid grid-cols-2 gap-3">
+      {scalar.map(f => (
+        <div key={f.key}>
+          <Label>{label(f)}</Label>
+          {f.type==="select" ? (
+            <Select value={attr[f.key] ?? ""} onValueChange={(v)=>set(f.key, v)}>
+              <SelectTrigger><SelectValue placeholder={f.placeholder || `เลือก ${f.label}`}/></SelectTrigger>
+              <SelectContent>{(f.options||[]).map(x=><SelectItem key={x} value={x}>{x}</SelectItem>)}</SelectContent>
+            </Select>
+          ) : f.type==="number" ? (
+            <Input type="number" value={attr[f.key] ?? ""} placeholder={f.placeholder} onChange={e=>set(f.key, e.target.value==="" ? undefined : Number(e.target.value))}/>
+          ) : (
+            <Input value={attr[f.key] ?? ""} placeholder={f.placeholder} onChange={e=>set(f.key, e.target.value)}/>
+          )}
         </div>
-        <div><Label>PCIe Slots</Label><Input type="number" value={attr.pcieSlots||""} onChange={e=>set("pcieSlots", Number(e.target.value||0))}/></div>
-      </div>
-      <div>
-        <Label>Storage Ports</Label>
+      ))}
+    </div>}
+    {fields.filter(f => f.type==="multi").map(f => (
+      <div key={f.key}>
+        <Label>{label(f)}</Label>
         <div className="flex gap-2 mt-1 flex-wrap">
-          {storageIfs.map(s => <Chip key={s} active={(attr.storage||[]).includes(s)} onClick={()=>toggleInArray("storage", s)}>{s}</Chip>)}
+          {(f.options||[]).map(s => <Chip key={s} active={(attr[f.key]||[]).includes(s)} onClick={()=>toggleInArray(f.key, s)}>{s}</Chip>)}
         </div>
       </div>
-    </div>);
-  }
-  if (category==="RAM"){
-    return (<div className="grid grid-cols-2 gap-3">
-      <div>
-        <Label>ชนิดแรม</Label>
-        <Select value={attr.type||""} onValueChange={(v)=>set("type", v)}>
-          <SelectTrigger><SelectValue placeholder="DDR5 / DDR4"/></SelectTrigger>
-          <SelectContent><SelectItem value="DDR5">DDR5</SelectItem><SelectItem value="DDR4">DDR4</SelectItem></SelectContent>
-        </Select>
-      </div>
-      <div><Label>ขนาด (GB)</Label><Input type="number" value={attr.sizeGB||""} onChange={e=>set("sizeGB", Number(e.target.value||0))}/></div>
-    </div>);
-  }
-  if (category==="Storage" || category==="SSD"){
-    return (<div className="grid grid-cols-2 gap-3">
-      <div>
-        <Label>Interface</Label>
-        <Select value={attr.interface||""} onValueChange={(v)=>set("interface", v)}>
-          <SelectTrigger><SelectValue placeholder="M.2 NVMe / SATA"/></SelectTrigger>
-          <SelectContent><SelectItem value="M.2 NVMe">M.2 NVMe</SelectItem><SelectItem value="SATA">SATA</SelectItem></SelectContent>
-        </Select>
-      </div>
-    </div>);
-  }
-  if (category==="PSU"){
-    return (<div className="grid grid-cols-2 gap-3">
-      <div><Label>กำลังไฟ (W)</Label><Input type="number" value={attr.wattage||""} onChange={e=>set("wattage", Number(e.target.value||0))}/></div>
-    </div>);
-  }
-  if (category==="Case"){
-    const sizes = ["ATX","mATX","ITX"];
-    return (<div>
-      <Label>รองรับเมนบอร์ด</Label>
-      <div className="flex gap-2 mt-1 flex-wrap">
-        {sizes.map(s => <Chip key={s} active={(attr.formFactorSupport||[]).includes(s)} onClick={()=>toggleInArray("formFactorSupport", s)}>{s}</Chip>)}
-      </div>
-    </div>);
-  }
-  if (category==="Cooler"){
-    const sockets = ["AM5","LGA1700"];
-    return (<div>
-      <Label>รองรับซ็อกเก็ต</Label>
-      <div className="flex gap-2 mt-1 flex-wrap">
-        {sockets.map(s => <Chip key={s} active={(attr.socketSupport||[]).includes(s)} onClick={()=>toggleInArray("socketSupport", s)}>{s}</Chip>)}
-      </div>
-    </div>);
-  }
-  if (category==="Monitor"){
-    return (<div className="grid grid-cols-2 gap-3">
-      <div><Label>ขนาด (นิ้ว)</Label><Input type="number" value={attr.size||""} onChange={e=>set("size", Number(e.target.value||0))}/></div>
-      <div><Label>รีเฟรช (Hz)</Label><Input type="number" value={attr.refresh||""} onChange={e=>set("refresh", Number(e.target.value||0))}/></div>
-    </div>);
-  }
-  if (category==="Software"){
-    return (<div className="grid grid-cols-2 gap-3">
-      <div><Label>ลิขสิทธิ์</Label><Input value={attr.license||""} onChange={e=>set("license", e.target.value)}/></div>
-    </div>);
-  }
-  return null;
+    ))}
+  </div>);
 }
-
-function ProductEditor({ initial, onSave }: { initial?: Partial<Product>, onSave: (p: Product) => void }) {
+function ProductEditor({ initial, inventory, categories, onSave }: { initial?: Partial<Product>, inventory: Product[], categories: CategoryDef[], onSave: (p: Product) => void }) {
   const [name, setName] = useState(initial?.name || "");
-  const [category, setCategory] = useState<Category>((initial?.category as Category) || "CPU");
+  const [sku, setSku] = useState(initial?.sku || "");
+  const [barcode, setBarcode] = useState(initial?.barcode || "");
+  const [category, setCategory] = useState<Category>((initial?.category as Category) || categories[0]?.name || "CPU");
   const [price, setPrice] = useState<number>(Number(initial?.price || 0));
   const [cost, setCost] = useState<number>(Number(initial?.cost || 0));
+  // blank = sell at the retail price for that tier
+  const [memberPrice, setMemberPrice] = useState(initial?.memberPrice?.toString() ?? "");
+  const [dealerPrice, setDealerPrice] = useState(initial?.dealerPrice?.toString() ?? "");
   const [stock, setStock] = useState<number>(Number(initial?.stock || 0));
+  const [supplier, setSupplier] = useState(initial?.supplier || "");
+  const [reorderPoint, setReorderPoint] = useState(initial?.reorderPoint?.toString() ?? "");
+  const [reorderTarget, setReorderTarget] = useState(initial?.reorderTarget?.toString() ?? "");
   const [attr, setAttr] = useState<Record<string, any>>(initial?.attributes || {});
   const [advanced, setAdvanced] = useState<string>("{}");
   const [showAdvanced, setShowAdvanced] = useState<boolean>(false);
@@ -405,18 +1177,28 @@ function ProductEditor({ initial, onSave }: { initial?: Partial<Product>, onSave
           <Select value={category} onValueChange={(v)=>{ setCategory(v as Category); setAttr({}); }}>
             <SelectTrigger><SelectValue /></SelectTrigger>
             <SelectContent>
-              {ALL_CATEGORIES.map(c => (<SelectItem key={c} value={c}>{c}</SelectItem>))}
+              {categories.map(c => (<SelectItem key={c.name} value={c.name}>{c.name}</SelectItem>))}
             </SelectContent>
           </Select>
         </div>
         <div><Label>ราคา (บาท)</Label><Input type="number" value={price} onChange={(e)=>setPrice(Number(e.target.value))} /></div>
         <div><Label>ต้นทุน (บาท)</Label><Input type="number" value={cost} onChange={(e)=>setCost(Number(e.target.value))} /></div>
+        <div><Label>ราคาสมาชิก (บาท)</Label><Input type="number" value={memberPrice} onChange={(e)=>setMemberPrice(e.target.value)} placeholder="ว่าง = ราคาปลีก" /></div>
+        <div><Label>ราคาดีลเลอร์ (บาท)</Label><Input type="number" value={dealerPrice} onChange={(e)=>setDealerPrice(e.target.value)} placeholder="ว่าง = ราคาปลีก" /></div>
         <div><Label>สต็อก</Label><Input type="number" value={stock} onChange={(e)=>setStock(Number(e.target.value))} /></div>
+        <div><Label>SKU</Label><Input value={sku} onChange={(e)=>setSku(e.target.value)} placeholder="รหัสสินค้าของร้าน" /></div>
+        <div><Label>บาร์โค้ด</Label><Input value={barcode} onChange={(e)=>setBarcode(e.target.value)} placeholder="สแกนหรือพิมพ์ EAN/UPC" /></div>
+        <div><Label>ผู้จำหน่าย</Label><Input list="product-suppliers" value={supplier} onChange={(e)=>setSupplier(e.target.value)} placeholder="ใช้จัดกลุ่มรายงานสั่งซื้อ" />
+          <datalist id="product-suppliers">{Array.from(new Set(inventory.map(p => p.supplier).filter(Boolean))).map(s => <option key={s} value={s} />)}</datalist></div>
+        <div className="grid grid-cols-2 gap-2">
+          <div><Label>จุดสั่งซื้อ</Label><Input type="number" min={0} value={reorderPoint} onChange={(e)=>setReorderPoint(e.target.value)} placeholder={`ว่าง = ${DEFAULT_REORDER_POINT}`} /></div>
+          <div><Label>ระดับเป้าหมาย</Label><Input type="number" min={0} value={reorderTarget} onChange={(e)=>setReorderTarget(e.target.value)} placeholder="ว่าง = 2 เท่า" /></div>
+        </div>
       </div>
 
       <div className="space-y-2">
         <Label>คุณสมบัติ</Label>
-        <CategoryAttrFields category={category} attr={attr} setAttr={setAttr} />
+        <SchemaAttrFields fields={categories.find(c => c.name === category)?.fields || []} attr={attr} setAttr={setAttr} />
         <div className="text-xs text-muted-foreground">* ช่องจะเปลี่ยนตามหมวดสินค้า หากต้องการใส่คีย์เพิ่มเติมกด “ขั้นสูง (JSON)”</div>
         <div className="pt-2">
           <Button variant="secondary" onClick={()=>setShowAdvanced(s=>!s)}>{showAdvanced ? "ซ่อนขั้นสูง (JSON)" : "ขั้นสูง (JSON)"}</Button>
@@ -435,31 +1217,42 @@ function ProductEditor({ initial, onSave }: { initial?: Partial<Product>, onSave
           try { attrs = { ...attrs, ...(JSON.parse(advanced)) }; }
           catch { toast.error("JSON ขั้นสูงไม่ถูกต้อง"); return; }
         }
-        onSave({ id:(initial?.id as string)||uid(), name, category, price, stock, cost, attributes: attrs } as Product);
+        const product = { id:(initial?.id as string)||uid(), name, category, price, stock, cost,
+          memberPrice: memberPrice.trim() ? Number(memberPrice) : undefined, dealerPrice: dealerPrice.trim() ? Number(dealerPrice) : undefined,
+          sku: sku.trim() || undefined, barcode: barcode.trim() || undefined, supplier: supplier.trim() || undefined,
+          reorderPoint: reorderPoint.trim() ? Number(reorderPoint) : undefined, reorderTarget: reorderTarget.trim() ? Number(reorderTarget) : undefined, attributes: attrs } as Product;
+        if (product.reorderTarget !== undefined && product.reorderTarget < reorderPointOf(product)) { toast.error("ระดับเป้าหมายต้องไม่น้อยกว่าจุดสั่งซื้อ"); return; }
+        const conflicts = codeConflicts(product, inventory);
+        if (conflicts.length) { toast.error(conflicts.join("\n")); return; }
+        onSave(product);
       }}><Save className="w-4 h-4 mr-2"/> บันทึกสินค้า</Button></div>
     </div>
   );
 }
 
 // ===== Base Picker =====
-function BasePicker({ inventory, selection, onSelect, sortMode, onChangeSort, required, filters }:{ inventory: Product[]; selection: Partial<Record<BaseCategory, Product>>; onSelect:(cat:BaseCategory, product:Product|null)=>void; sortMode: SortMode; onChangeSort:(m:SortMode)=>void; required: BaseCategory[]; filters: AttrFilters; }){
+function BasePicker({ inventory, categories, selection, onSelect, onSwap, updateQty, removeEntry, sortMode, onChangeSort, required, filters, rules, power }:{ inventory: Product[]; categories: CategoryDef[]; selection: BaseSelection; onSelect:(cat:BaseCategory, product:Product|null)=>void; onSwap:(cat:BaseCategory, entryId:string, product:Product)=>void; updateQty:(cat:BaseCategory, id:string, qty:number)=>void; removeEntry:(cat:BaseCategory, id:string)=>void; sortMode: SortMode; onChangeSort:(m:SortMode)=>void; required: BaseCategory[]; filters: AttrFilters; rules: CompatRule[]; power: PowerSettings; }){
   const [baseSearch, setBaseSearch] = React.useState("");
   const searchLower = baseSearch.trim().toLowerCase();
+  const baseCats = useMemo(()=>categories.filter(c => c.kind==="base"), [categories]);
   const byCatRaw = useMemo(()=>{
-    const map: Record<BaseCategory, Product[]> = Object.fromEntries(BASE_CATEGORIES.map(c=>[c,[]])) as any;
-    for (const p of inventory) if (BASE_CATEGORIES.includes(p.category as BaseCategory) && p.stock>0) map[p.category as BaseCategory].push(p);
+    const map: Record<BaseCategory, Product[]> = Object.fromEntries(baseCats.map(c=>[c.name,[]]));
+    for (const p of inventory) if (p.stock>0) own(map, p.category)?.push(p);
     return map;
-  }, [inventory]);
+  }, [inventory, baseCats]);
   const byCat = useMemo(()=>{
-    const m: Record<BaseCategory, Product[]> = {} as any;
-    for (const c of BASE_CATEGORIES) m[c] = applyAttrFilters(c, byCatRaw[c], filters);
+    const m: Record<BaseCategory, Product[]> = {};
+    for (const c of baseCats) m[c.name] = applyAttrFilters(c.name, byCatRaw[c.name], filters);
     return m;
-  }, [byCatRaw, filters]);
+  }, [byCatRaw, baseCats, filters]);
 
-  const comp = useMemo(()=>checkCompatibility(selection), [selection]);
+  const comp = useMemo(()=>checkCompatibility(selection, rules, power, categories), [selection, rules, power, categories]);
+  const sizing = useMemo(()=>psuSizing(selection, power), [selection, power]);
+  const fixes = useMemo(()=>comp.notes.map(n => n.level==="ok" ? [] : suggestFixes(selection, n, inventory, rules, power, categories)), [comp, selection, inventory, rules, power, categories]);
+  const [showPower, setShowPower] = React.useState(false);
   const [showAllComp, setShowAllComp] = React.useState(false);
-  const selectedTotal = Object.values(selection).reduce((sum, p) => sum + (p?.price || 0), 0);
-  const missingRequired = useMemo(()=>required.filter(c => !selection[c]), [required, selection]);
+  const selectedTotal = baseEntries(selection).reduce((sum, e) => sum + e.product.price*e.qty, 0);
+  const missingRequired = useMemo(()=>required.filter(c => !own(selection, c)?.length), [required, selection]);
 
   return (
     <div className="grid md:grid-cols-3 gap-4">
@@ -485,25 +1278,38 @@ function BasePicker({ inventory, selection, onSelect, sortMode, onChangeSort, re
               </SelectContent>
             </Select>
           </div>
-          {BASE_CATEGORIES.map((cat)=>(
-            <div key={cat} className="grid grid-cols-12 items-center gap-2 p-2 rounded-xl hover:bg-muted/40">
-              <div className="col-span-4 font-medium flex items-center gap-2">{categoryIcon[cat]} {cat} {required.includes(cat) && <span className="text-red-600 text-xs">*จำเป็น</span>}</div>
-              <div className="col-span-8 flex gap-2">
-                <Select value={selection[cat]?.id || "__none__"} onValueChange={(id)=>{ if(id==="__none__"){ onSelect(cat, null); if (required.includes(cat)) toast.error(`${cat} เป็นหมวดจำเป็น`); return; } const item = byCat[cat].find(p=>p.id===id) || null; onSelect(cat, item); }}>
-                  <SelectTrigger className="w-full"><SelectValue placeholder={`เลือก ${cat} (ข้ามได้)`} /></SelectTrigger>
-                  <SelectContent>
-                    <SelectItem key="__none__" value="__none__">— ไม่เลือก (ข้าม) —</SelectItem>
-                    {sortProducts(byCat[cat].filter(p => !searchLower || p.name.toLowerCase().includes(searchLower)), sortMode).map(p => (
-                      <SelectItem key={p.id} value={p.id}>{p.name} — {baht(p.price)} {p.stock<=3 && <span className="text-amber-600">(เหลือ {p.stock})</span>}</SelectItem>
-                    ))}
-                    {byCat[cat].length===0 && <div className="px-3 py-2 text-muted-foreground">ไม่มีสินค้า</div>}
-                  </SelectContent>
-                </Select>
-                <Button variant="secondary" onClick={()=>{ onSelect(cat, null); if (required.includes(cat)) toast.error(`${cat} เป็นหมวดจำเป็น`); }}>ข้าม</Button>
-                {selection[cat] && (<Button variant="secondary" onClick={()=>onSelect(cat, null)}>ลบ</Button>)}
+          {baseCats.map(({ name: cat, maxQty: max, label })=>{
+            const entries = own(selection, cat) || [];
+            const multi = max > 1;
+            return (
+            <div key={cat} className="p-2 rounded-xl hover:bg-muted/40 space-y-2">
+              <div className="grid grid-cols-12 items-center gap-2">
+                <div className="col-span-4 font-medium flex items-center gap-2">{categoryIcon(categories, cat)} {label || cat} {required.includes(cat) && <span className="text-red-600 text-xs">*จำเป็น</span>}{multi && <span className="text-xs text-muted-foreground">({categoryQty(selection, cat)}/{max})</span>}</div>
+                <div className="col-span-8 flex gap-2">
+                  <Select value={multi ? "" : entries[0]?.product.id || "__none__"} onValueChange={(id)=>{ if(id==="__none__"){ onSelect(cat, null); if (required.includes(cat)) toast.error(`${cat} เป็นหมวดจำเป็น`); return; } const item = byCat[cat].find(p=>p.id===id) || null; onSelect(cat, item); }}>
+                    <SelectTrigger className="w-full"><SelectValue placeholder={multi ? `เพิ่ม ${cat}${entries.length ? "" : " (ข้ามได้)"}` : `เลือก ${cat} (ข้ามได้)`} /></SelectTrigger>
+                    <SelectContent>
+                      {!multi && <SelectItem key="__none__" value="__none__">— ไม่เลือก (ข้าม) —</SelectItem>}
+                      {sortProducts(byCat[cat].filter(p => !searchLower || p.name.toLowerCase().includes(searchLower)), sortMode).map(p => (
+                        <SelectItem key={p.id} value={p.id}>{p.name} — {baht(p.price)} {stockStatus(p)!=="ok" && <span className="text-amber-600">(เหลือ {p.stock})</span>}</SelectItem>
+                      ))}
+                      {byCat[cat].length===0 && <div className="px-3 py-2 text-muted-foreground">ไม่มีสินค้า</div>}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="secondary" onClick={()=>{ onSelect(cat, null); if (required.includes(cat)) toast.error(`${cat} เป็นหมวดจำเป็น`); }}>ข้าม</Button>
+                  {!multi && entries.length>0 && (<Button variant="secondary" onClick={()=>onSelect(cat, null)}>ลบ</Button>)}
+                </div>
               </div>
+              {multi && entries.map(e => (
+                <div key={e.id} className="grid grid-cols-12 items-center gap-2 text-sm">
+                  <div className="col-span-4" />
+                  <div className="col-span-4 truncate" title={e.product.name}>{e.product.name}</div>
+                  <div className="col-span-1"><Input type="number" min={1} max={max} value={e.qty} onChange={(ev)=>updateQty(cat, e.id, Math.max(1, Number(ev.target.value||1)))} /></div>
+                  <div className="col-span-3 flex items-center justify-end gap-2">{baht(e.product.price*e.qty)}<Button variant="destructive" onClick={()=>removeEntry(cat, e.id)}><Trash2 className="w-4 h-4"/></Button></div>
+                </div>
+              ))}
             </div>
-          ))}
+          );})}
           <div className="text-right font-semibold">รวมชิ้นส่วนหลัก: {baht(selectedTotal)}</div>
         </CardContent>
       </Card>
@@ -513,13 +1319,34 @@ function BasePicker({ inventory, selection, onSelect, sortMode, onChangeSort, re
         <CardContent>
           <div className="space-y-2">
             {(showAllComp ? comp.notes : comp.notes.filter(n=>n.level!=="ok").slice(0,4)).map((n,i)=>(
-              <div key={i} className={`flex items-start gap-2 rounded-xl px-3 py-2 ${n.level==='error'?'bg-red-50 text-red-700':n.level==='warn'?'bg-amber-50 text-amber-700':'bg-emerald-50 text-emerald-700'}`}>
-                {n.level!=='ok'?<AlertTriangle className="w-4 h-4 mt-0.5"/>:<CheckCircle2 className="w-4 h-4 mt-0.5"/>}
-                <span className="text-sm">{n.msg}</span>
+              <div key={i} className={`rounded-xl px-3 py-2 ${n.level==='error'?'bg-red-50 text-red-700':n.level==='warn'?'bg-amber-50 text-amber-700':'bg-emerald-50 text-emerald-700'}`}>
+                <div className="flex items-start gap-2">
+                  {n.level!=='ok'?<AlertTriangle className="w-4 h-4 mt-0.5"/>:<CheckCircle2 className="w-4 h-4 mt-0.5"/>}
+                  <span className="text-sm">{n.msg}</span>
+                </div>
+                {(fixes[comp.notes.indexOf(n)] || []).map(f => (
+                  <button key={`${f.entryId}:${f.product.id}`} className="mt-1 ml-6 flex items-center gap-1 text-xs underline text-left" onClick={()=>{ onSwap(f.cat, f.entryId, f.product); toast.success(`เปลี่ยน ${f.cat} เป็น ${f.product.name}`); }}>
+                    <Wrench className="w-3 h-3"/> {f.kind==="cheapest" ? "ถูกที่สุด" : "ราคาใกล้เคียง"}: เปลี่ยน {f.cat} เป็น {f.product.name} ({baht(f.product.price)})
+                  </button>
+                ))}
               </div>
             ))}
             {(showAllComp ? comp.notes : comp.notes.filter(n=>n.level!=="ok")).length===0 && <div className="text-muted-foreground text-sm">ปกติทุกอย่าง หรือยังไม่ได้เลือกชิ้นส่วน</div>}
-            <div className="flex items-center justify-between mt-3 text-sm text-muted-foreground"><span>ประมาณการกำลังไฟ ~ {estimateWattage(selection)}W</span><Button  variant="secondary" className="h-8 px-3 text-sm" onClick={()=>setShowAllComp(s=>!s)}>{showAllComp ? "ย่อ" : "ดูทั้งหมด"}</Button></div>
+            <div className="flex items-center justify-end mt-3"><Button variant="secondary" className="h-8 px-3 text-sm" onClick={()=>setShowAllComp(s=>!s)}>{showAllComp ? "ย่อ" : "ดูทั้งหมด"}</Button></div>
+            <div className="mt-3 rounded-xl bg-muted/40 px-3 py-2 text-sm space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 font-medium"><Power className="w-4 h-4"/> PSU แนะนำ {sizing.recommendedMin ? `${sizing.recommendedMin}–${sizing.recommendedMax}W` : "-"}</div>
+                <button className="text-xs underline text-muted-foreground" onClick={()=>setShowPower(s=>!s)}>{showPower ? "ซ่อนรายละเอียด" : "ดูรายละเอียด"}</button>
+              </div>
+              <div className="text-xs text-muted-foreground">ใช้งานต่อเนื่อง ~{sizing.sustained}W • สูงสุดชั่วขณะ ~{sizing.peak}W • headroom {power.headroomPercent}%{sizing.wallDraw ? ` • กินไฟจากปลั๊ก ~${sizing.wallDraw}W (${firstProduct(selection, "PSU")?.attributes?.efficiencyRating})` : ""}</div>
+              {showPower && (
+                <div className="pt-1 space-y-0.5 text-xs">
+                  {sizing.items.map((i,idx) => <div key={idx} className="flex justify-between gap-2"><span className="truncate" title={i.label}>{i.label}</span><span>{i.watts}W</span></div>)}
+                  {sizing.transient>0 && <div className="flex justify-between gap-2 text-amber-700"><span>ไฟกระชากการ์ดจอ (transient)</span><span>+{sizing.transient}W</span></div>}
+                  {sizing.items.length===0 && <div className="text-muted-foreground">ยังไม่ได้เลือกชิ้นส่วน</div>}
+                </div>
+              )}
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -527,160 +1354,714 @@ function BasePicker({ inventory, selection, onSelect, sortMode, onChangeSort, re
   );
 }
 
-// ===== Add-ons Picker =====
-function AddonsPicker({ inventory, addons, addAddon, updateQty, removeAddon, sortMode }:{ inventory: Product[]; addons: AddonEntry[]; addAddon:(p:Product, qty:number)=>void; updateQty:(id:string, qty:number)=>void; removeAddon:(id:string)=>void; sortMode: SortMode; }){
-  const byCat = useMemo(()=>{
-    const map: Record<AddonCategory, Product[]> = Object.fromEntries(ADDON_CATEGORIES.map(c=>[c,[]])) as any;
-    for (const p of inventory) if (ADDON_CATEGORIES.includes(p.category as AddonCategory) && p.stock>0) map[p.category as AddonCategory].push(p);
-    return map;
-  }, [inventory]);
-
-  const [selMonitor, setSelMonitor] = useState<string>("");
-  const [qtyMonitor, setQtyMonitor] = useState<number>(1);
-  const [selSoftware, setSelSoftware] = useState<string>("");
-  const [qtySoftware, setQtySoftware] = useState<number>(1);
-  const [selSSD, setSelSSD] = useState<string>("");
-  const [qtySSD, setQtySSD] = useState<number>(1);
-
-  const add = (cat: AddonCategory, id: string, qty: number) => {
-    const items = byCat[cat]; const product = items.find(p=>p.id===id); if (!product){ toast.error("กรุณาเลือกสินค้า"); return; }
-    if (qty < 1) { toast.error("จำนวนอย่างน้อย 1"); return; }
-    addAddon(product, qty);
-    toast.success(`เพิ่ม ${product.name} x${qty}`);
-  };
-
-  const totalAddons = addons.reduce((s,a)=>s + a.product.price * a.qty, 0);
-
+// ===== Compatibility Rules Editor =====
+function RuleForm({ initial, categories, attrKeys, onSave }:{ initial: CompatRule; categories: BaseCategory[]; attrKeys: Record<string, string[]>; onSave:(r: CompatRule)=>void }){
+  const [rule, setRule] = useState<CompatRule>(initial);
+  const set = (patch: Partial<CompatRule>) => setRule(r => ({ ...r, ...patch }));
+  const right = rule.right;
   return (
-    <Card className="shadow-sm">
-      <CardHeader><CardTitle className="flex items-center gap-2"><Sparkles className="w-5 h-5"/> Option เสริม</CardTitle></CardHeader>
-      <CardContent className="space-y-4">
-        {/* Monitor row */}
-        <div className="grid grid-cols-12 items-center gap-2 p-2 rounded-xl hover:bg-muted/40">
-          <div className="col-span-3 font-medium flex items-center gap-2">{categoryIcon["Monitor"]} Monitor</div>
-          <div className="col-span-6">
-            <Select value={selMonitor} onValueChange={setSelMonitor}>
-              <SelectTrigger className="w-full"><SelectValue placeholder="เลือก Monitor" /></SelectTrigger>
-              <SelectContent>
-                {sortProducts(byCat["Monitor"], sortMode).map(p=>(<SelectItem key={p.id} value={p.id}>{p.name} — {baht(p.price)}</SelectItem>))}
-                {byCat["Monitor"].length===0 && <div className="px-3 py-2 text-muted-foreground">ไม่มีสินค้า</div>}
-              </SelectContent>
+    <div className="space-y-3">
+      <datalist id="rule-attr-keys">{Array.from(new Set(Object.values(attrKeys).flat())).map(k => <option key={k} value={k} />)}<option value="#qty" /></datalist>
+      <div className="grid grid-cols-2 gap-3">
+        <div><Label>ชื่อกฎ</Label><Input value={rule.name} onChange={e=>set({ name: e.target.value })} /></div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label>ระดับ</Label>
+            <Select value={rule.severity} onValueChange={(v)=>set({ severity: v as CompatRule["severity"] })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent><SelectItem value="error">ผิดพลาด (error)</SelectItem><SelectItem value="warn">คำเตือน (warn)</SelectItem></SelectContent>
             </Select>
           </div>
-          <div className="col-span-2">
-            <Input type="number" min={1} value={qtyMonitor} onChange={(e)=>setQtyMonitor(Math.max(1, Number(e.target.value||1)))} />
-          </div>
-          <div className="col-span-1">
-            <Button onClick={()=>add("Monitor", selMonitor, qtyMonitor)}>เพิ่ม</Button>
-          </div>
-        </div>
-
-        {/* Software row */}
-        <div className="grid grid-cols-12 items-center gap-2 p-2 rounded-xl hover:bg-muted/40">
-          <div className="col-span-3 font-medium flex items-center gap-2">{categoryIcon["Software"]} Software</div>
-          <div className="col-span-6">
-            <Select value={selSoftware} onValueChange={setSelSoftware}>
-              <SelectTrigger className="w-full"><SelectValue placeholder="เลือก Software" /></SelectTrigger>
-              <SelectContent>
-                {sortProducts(byCat["Software"], sortMode).map(p=>(<SelectItem key={p.id} value={p.id}>{p.name} — {baht(p.price)}</SelectItem>))}
-                {byCat["Software"].length===0 && <div className="px-3 py-2 text-muted-foreground">ไม่มีสินค้า</div>}
-              </SelectContent>
+          <div>
+            <Label>ถ้าไม่มีค่า</Label>
+            <Select value={rule.whenMissing} onValueChange={(v)=>set({ whenMissing: v as CompatRule["whenMissing"] })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent><SelectItem value="skip">ข้ามกฎ</SelectItem><SelectItem value="fail">ถือว่าไม่ผ่าน</SelectItem></SelectContent>
             </Select>
           </div>
-          <div className="col-span-2">
-            <Input type="number" min={1} value={qtySoftware} onChange={(e)=>setQtySoftware(Math.max(1, Number(e.target.value||1)))} />
-          </div>
-          <div className="col-span-1">
-            <Button onClick={()=>add("Software", selSoftware, qtySoftware)}>เพิ่ม</Button>
-          </div>
         </div>
-
-        {/* SSD row */}
-        <div className="grid grid-cols-12 items-center gap-2 p-2 rounded-xl hover:bg-muted/40">
-          <div className="col-span-3 font-medium flex items-center gap-2">{categoryIcon["SSD"]} SSD (เพิ่มไดรฟ์เสริม)</div>
-          <div className="col-span-6">
-            <Select value={selSSD} onValueChange={setSelSSD}>
-              <SelectTrigger className="w-full"><SelectValue placeholder="เลือก SSD" /></SelectTrigger>
-              <SelectContent>
-                {sortProducts(byCat["SSD"], sortMode).map(p=>(<SelectItem key={p.id} value={p.id}>{p.name} — {baht(p.price)}</SelectItem>))}
-                {byCat["SSD"].length===0 && <div className="px-3 py-2 text-muted-foreground">ไม่มีสินค้า</div>}
-              </SelectContent>
+      </div>
+      <div className="grid grid-cols-3 gap-3 p-3 rounded-xl bg-muted/40">
+        <div className="space-y-1">
+          <Label>ซ้าย: หมวด</Label>
+          <Select value={rule.left.category} onValueChange={(v)=>set({ left: { ...rule.left, category: v as BaseCategory } })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>{categories.map(c => <SelectItem key={c} value={c}>{c}</SelectItem>)}</SelectContent>
+          </Select>
+          <Label>ซ้าย: Attribute</Label>
+          <Input list="rule-attr-keys" value={rule.left.attribute} onChange={e=>set({ left: { ...rule.left, attribute: e.target.value } })} placeholder="เช่น socket, #qty" />
+        </div>
+        <div className="space-y-1">
+          <Label>เงื่อนไข</Label>
+          <Select value={rule.op} onValueChange={(v)=>set({ op: v as RuleOperator })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>{(Object.keys(RULE_OPERATORS) as RuleOperator[]).map(o => <SelectItem key={o} value={o}>{RULE_OPERATORS[o]}</SelectItem>)}</SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>ขวา: ชนิด</Label>
+          <Select value={right.source} onValueChange={(v)=>set({ right: v==="attr" ? { source: "attr", category: "Motherboard", attribute: "" } : v==="value" ? { source: "value", value: "" } : { source: "wattage", measure: "recommended" } })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="attr">Attribute ของอีกหมวด</SelectItem>
+              <SelectItem value="value">ค่าคงที่</SelectItem>
+              <SelectItem value="wattage">กำลังไฟที่ประมาณการ</SelectItem>
+            </SelectContent>
+          </Select>
+          {right.source==="attr" && (<>
+            <Select value={right.category} onValueChange={(v)=>set({ right: { ...right, category: v as BaseCategory } })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>{categories.map(c => <SelectItem key={c} value={c}>{c}</SelectItem>)}</SelectContent>
             </Select>
-          </div>
-          <div className="col-span-2">
-            <Input type="number" min={1} value={qtySSD} onChange={(e)=>setQtySSD(Math.max(1, Number(e.target.value||1)))} />
-          </div>
-          <div className="col-span-1">
-            <Button onClick={()=>add("SSD", selSSD, qtySSD)}>เพิ่ม</Button>
-          </div>
+            <Input list="rule-attr-keys" value={right.attribute} onChange={e=>set({ right: { ...right, attribute: e.target.value } })} placeholder="เช่น socket" />
+          </>)}
+          {right.source==="value" && <Input value={right.value} onChange={e=>set({ right: { source: "value", value: e.target.value } })} placeholder="เช่น 650" />}
+          {right.source==="wattage" && (
+            <Select value={right.measure || "recommended"} onValueChange={(v)=>set({ right: { source: "wattage", measure: v as PowerMeasure } })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>{(Object.keys(POWER_MEASURES) as PowerMeasure[]).map(m => <SelectItem key={m} value={m}>{POWER_MEASURES[m]}</SelectItem>)}</SelectContent>
+            </Select>
+          )}
         </div>
+      </div>
+      <div><Label>ข้อความเมื่อไม่ผ่าน</Label><Input value={rule.message} onChange={e=>set({ message: e.target.value })} /></div>
+      <div><Label>ข้อความเมื่อผ่าน (ว่างได้)</Label><Input value={rule.okMessage || ""} onChange={e=>set({ okMessage: e.target.value || undefined })} /></div>
+      <div className="text-xs text-muted-foreground">ตัวแปรในข้อความ: {"{left}"} {"{right}"} {"{leftName}"} {"{rightName}"} {"{leftCategory}"} {"{rightCategory}"} • Attribute "#qty" = จำนวนรวมของหมวด, "#qty:interface=SATA" = นับเฉพาะที่ตรงเงื่อนไข, "#sum:modules" = ผลรวม attribute × จำนวน, "#total:pcie8Pin" = ผลรวมเฉพาะรายการที่มีค่า</div>
+      <div className="flex justify-end"><Button onClick={()=>{
+        if (!rule.name.trim() || !rule.left.attribute.trim() || !rule.message.trim()) { toast.error("กรุณากรอกชื่อกฎ, attribute ด้านซ้าย และข้อความ"); return; }
+        if (rule.right.source==="attr" && !rule.right.attribute.trim()) { toast.error("กรุณากรอก attribute ด้านขวา"); return; }
+        onSave(rule);
+      }}><Save className="w-4 h-4 mr-2"/> บันทึกกฎ</Button></div>
+    </div>
+  );
+}
 
-        {/* List */}
-        <div className="border rounded-2xl">
-          <div className="grid grid-cols-12 bg-muted/50 px-4 py-2 text-sm font-semibold">
-            <div className="col-span-6">รายการ</div><div className="col-span-2 text-center">จำนวน</div><div className="col-span-2 text-right">ต่อชิ้น</div><div className="col-span-2 text-right">รวม</div>
+function RulesEditor({ rules, setRules, inventory, categories }:{ rules: CompatRule[]; setRules:(r: CompatRule[])=>void; inventory: Product[]; categories: CategoryDef[] }){
+  const [editing, setEditing] = useState<CompatRule | null>(null);
+  const attrKeys = useMemo(()=>{
+    const m: Record<string, string[]> = Object.fromEntries(categories.map(c => [c.name, c.fields.map(f => f.key)]));
+    for (const p of inventory) m[p.category] = Array.from(new Set([...(own(m, p.category)||[]), ...Object.keys(p.attributes||{})]));
+    return m;
+  }, [inventory, categories]);
+  const isDefault = (r: CompatRule) => DEFAULT_RULES.some(d => d.id === r.id);
+  const describe = (r: CompatRule) => `${r.left.category}.${r.left.attribute} ${RULE_OPERATORS[r.op]} ${r.right.source==="attr" ? `${r.right.category}.${r.right.attribute}` : r.right.source==="value" ? `"${r.right.value}"` : POWER_MEASURES[r.right.measure || "recommended"]}`;
+  const save = (r: CompatRule) => {
+    setRules(rules.some(x => x.id === r.id) ? rules.map(x => x.id === r.id ? r : x) : [...rules, r]);
+    setEditing(null); toast.success("บันทึกกฎแล้ว");
+  };
+  const blank = (): CompatRule => ({ id: uid(), name: "", enabled: true, left: { category: "CPU", attribute: "" }, op: "equals", right: { source: "attr", category: "Motherboard", attribute: "" }, severity: "error", whenMissing: "skip", message: "" });
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader><CardTitle className="flex items-center gap-2"><CheckCircle2 className="w-5 h-5"/> กฎความเข้ากันได้</CardTitle></CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center gap-2">
+          <div className="text-sm text-muted-foreground">กฎจะถูกตรวจกับชิ้นส่วนหลักทุกครั้งที่เลือกสินค้า</div>
+          <div className="ml-auto flex gap-2">
+            <Button variant="secondary" onClick={()=>{ if (confirm("คืนค่ากฎเริ่มต้น? กฎที่สร้างเองจะถูกลบ")) { setRules(DEFAULT_RULES); toast.message("คืนค่ากฎเริ่มต้นแล้ว"); } }}>คืนค่าเริ่มต้น</Button>
+            <Button onClick={()=>setEditing(blank())}><Plus className="w-4 h-4 mr-2"/> เพิ่มกฎ</Button>
           </div>
-          <div className="max-h-60 overflow-auto">
-            {addons.length===0 ? <div className="px-4 py-3 text-muted-foreground">ยังไม่มี Option เสริม</div> : addons.map(a=>(
-              <div key={a.id} className="grid grid-cols-12 items-center px-4 py-2 border-t text-sm">
-                <div className="col-span-6 flex items-center gap-2"><Badge variant="secondary">{a.product.category}</Badge><span className="truncate" title={a.product.name}>{a.product.name}</span></div>
-                <div className="col-span-2 text-center"><Input type="number" min={1} value={a.qty} onChange={(e)=>updateQty(a.id, Math.max(1, Number(e.target.value||1)))} /></div>
-                <div className="col-span-2 text-right">{baht(a.product.price)}</div>
-                <div className="col-span-2 text-right flex items-center justify-end gap-2">{baht(a.product.price * a.qty)}<Button variant="destructive" onClick={()=>removeAddon(a.id)}><Trash2 className="w-4 h-4"/></Button></div>
+        </div>
+        <div className="border rounded-2xl overflow-hidden">
+          {rules.map(r => (
+            <div key={r.id} className={`grid grid-cols-12 items-center gap-2 px-4 py-2 border-t first:border-t-0 text-sm ${r.enabled ? '' : 'opacity-50'}`}>
+              <div className="col-span-5 min-w-0">
+                <div className="font-medium truncate">{r.name} {isDefault(r) && <Badge variant="secondary">ค่าเริ่มต้น</Badge>}</div>
+                <div className="text-xs text-muted-foreground font-mono truncate">{describe(r)}</div>
               </div>
-            ))}
-          </div>
-          <div className="flex justify-end px-4 py-2 font-semibold">รวม Option เสริม: {baht(totalAddons)}</div>
+              <div className="col-span-4 text-xs truncate" title={r.message}>{r.message}</div>
+              <div className="col-span-1"><Badge className={r.severity==="error" ? "bg-red-600" : "bg-amber-500"}>{r.severity}</Badge></div>
+              <div className="col-span-2 flex justify-end gap-2">
+                <Button variant="secondary" onClick={()=>setRules(rules.map(x => x.id===r.id ? { ...x, enabled: !x.enabled } : x))}>{r.enabled ? "ปิด" : "เปิด"}</Button>
+                <Button variant="secondary" onClick={()=>setEditing(r)} title="แก้ไข"><Edit className="w-4 h-4"/></Button>
+                {!isDefault(r) && <Button variant="destructive" onClick={()=>setRules(rules.filter(x => x.id!==r.id))} title="ลบ"><Trash2 className="w-4 h-4"/></Button>}
+              </div>
+            </div>
+          ))}
         </div>
       </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(o)=>{ if(!o) setEditing(null); }}>
+        <DialogContent className="sm:max-w-[720px] relative">
+          <DialogHeader><DialogTitle>{editing && rules.some(r => r.id===editing.id) ? "แก้ไขกฎ" : "เพิ่มกฎ"}</DialogTitle></DialogHeader>
+          <button onClick={()=>setEditing(null)} className="absolute right-3 top-3 p-1.5 rounded-full hover:bg-slate-100" aria-label="ปิด"><X className="w-5 h-5"/></button>
+          {editing && <RuleForm key={editing.id} initial={editing} categories={baseCategoryNames(categories)} attrKeys={attrKeys} onSave={save} />}
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 }
 
-// ===== Summary =====
-type Pricing = {
-  discountType: 'none'|'percent'|'fixed';
-  discountValue: number;
-  vatEnabled: boolean;
-  vatPercent: number;
-  showCost: boolean;
+// ===== Promotions Editor =====
+function PromotionForm({ initial, categories, attrKeys, onSave }:{ initial: Promotion; categories: Category[]; attrKeys: string[]; onSave:(p: Promotion)=>void }){
+  const [promo, setPromo] = useState<Promotion>(initial);
+  const set = (patch: Partial<Promotion>) => setPromo(p => ({ ...p, ...patch }));
+  const setCondition = (i: number, patch: Partial<PromoCondition>) => set({ conditions: promo.conditions.map((c, j) => j===i ? { ...c, ...patch } : c) });
+  return (
+    <div className="space-y-3">
+      <datalist id="promo-attr-keys"><option value="#name" />{attrKeys.map(k => <option key={k} value={k} />)}</datalist>
+      <div className="grid grid-cols-2 gap-3">
+        <div><Label>ชื่อโปรโมชัน</Label><Input value={promo.name} onChange={e=>set({ name: e.target.value })} /></div>
+        <div>
+          <Label>รูปแบบ</Label>
+          <Select value={promo.kind} onValueChange={(v)=>set({ kind: v as Promotion["kind"] })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="line">ลดรายสินค้า (ทุกชิ้นที่เข้าเงื่อนไข)</SelectItem>
+              <SelectItem value="bundle">ซื้อคู่ / ชุด (ต้องครบทุกเงื่อนไข)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="space-y-2 p-3 rounded-xl bg-muted/40">
+        <Label>{promo.kind==="bundle" ? "สินค้าในชุด (แต่ละเงื่อนไขต้องเป็นคนละรายการ)" : "เงื่อนไขสินค้า (ต้องตรงทุกข้อ)"}</Label>
+        {promo.conditions.map((c, i) => (
+          <div key={i} className="grid grid-cols-12 gap-2 items-center">
+            <div className="col-span-3">
+              <Select value={c.category} onValueChange={(v)=>setCondition(i, { category: v })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent><SelectItem value="">ทุกหมวด</SelectItem>{categories.map(x => <SelectItem key={x} value={x}>{x}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-3"><Input list="promo-attr-keys" value={c.field} onChange={e=>setCondition(i, { field: e.target.value })} placeholder="ว่าง = ทุกสินค้า" /></div>
+            <div className="col-span-2">
+              <Select value={c.op} onValueChange={(v)=>setCondition(i, { op: v as PromoOperator })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>{(Object.keys(PROMO_OPERATORS) as PromoOperator[]).map(o => <SelectItem key={o} value={o}>{PROMO_OPERATORS[o]}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-3"><Input value={c.value} disabled={!c.field} onChange={e=>setCondition(i, { value: e.target.value })} placeholder="เช่น Ryzen" /></div>
+            <div className="col-span-1 flex justify-end"><Button variant="destructive" onClick={()=>set({ conditions: promo.conditions.filter((_, j) => j!==i) })} title="ลบเงื่อนไข"><Trash2 className="w-4 h-4"/></Button></div>
+          </div>
+        ))}
+        <Button variant="secondary" onClick={()=>set({ conditions: [...promo.conditions, { category: "", field: "", op: "equals", value: "" }] })}><Plus className="w-4 h-4 mr-2"/> เพิ่มเงื่อนไข</Button>
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <Label>ส่วนลด</Label>
+          <div className="flex gap-2">
+            <Select value={promo.discountType} onValueChange={(v)=>set({ discountType: v as Promotion["discountType"] })}>
+              <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
+              <SelectContent><SelectItem value="percent">%</SelectItem><SelectItem value="fixed">บาท</SelectItem></SelectContent>
+            </Select>
+            <Input type="number" value={promo.discountValue} onChange={e=>set({ discountValue: Number(e.target.value||0) })} />
+          </div>
+          <div className="text-xs text-muted-foreground mt-1">{promo.discountType==="fixed" ? (promo.kind==="bundle" ? "ต่อชุด" : "ต่อชิ้น") : "ของราคาสินค้าที่เข้าเงื่อนไข"}</div>
+        </div>
+        <div><Label>เริ่ม</Label><Input type="date" value={promo.startDate} onChange={e=>set({ startDate: e.target.value })} /></div>
+        <div><Label>สิ้นสุด</Label><Input type="date" value={promo.endDate} onChange={e=>set({ endDate: e.target.value })} /></div>
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        <div><Label>คูปอง (ว่าง = ใช้อัตโนมัติ)</Label><Input value={promo.coupon} onChange={e=>set({ coupon: e.target.value.toUpperCase() })} placeholder="เช่น GAMER500" /></div>
+        <div><Label>ลำดับ (น้อยคิดก่อน)</Label><Input type="number" value={promo.priority} onChange={e=>set({ priority: Number(e.target.value||0) })} /></div>
+        <div>
+          <Label>ใช้ร่วมกับโปรอื่น</Label>
+          <Select value={promo.stackable ? "yes" : "no"} onValueChange={(v)=>set({ stackable: v==="yes" })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent><SelectItem value="yes">ได้</SelectItem><SelectItem value="no">ไม่ได้ (สินค้าที่ได้ส่วนลดแล้วจะถูกข้าม)</SelectItem></SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="flex justify-end"><Button onClick={()=>{
+        if (!promo.name.trim() || !promo.conditions.length) { toast.error("กรุณากรอกชื่อและเงื่อนไขอย่างน้อย 1 ข้อ"); return; }
+        if (promo.discountValue <= 0 || (promo.discountType==="percent" && promo.discountValue > 100)) { toast.error("ส่วนลดไม่ถูกต้อง"); return; }
+        if (promo.startDate && promo.endDate && promo.endDate < promo.startDate) { toast.error("วันสิ้นสุดต้องไม่ก่อนวันเริ่ม"); return; }
+        onSave({ ...promo, name: promo.name.trim(), coupon: couponKey(promo.coupon) });
+      }}><Save className="w-4 h-4 mr-2"/> บันทึกโปรโมชัน</Button></div>
+    </div>
+  );
+}
+
+function PromotionsEditor({ promotions, setPromotions, inventory, categories }:{ promotions: Promotion[]; setPromotions:(p: Promotion[])=>void; inventory: Product[]; categories: CategoryDef[] }){
+  const [editing, setEditing] = useState<Promotion | null>(null);
+  const attrKeys = useMemo(()=>Array.from(new Set([...categories.flatMap(c => c.fields.map(f => f.key)), ...inventory.flatMap(p => Object.keys(p.attributes||{}))])), [inventory, categories]);
+  const describeCondition = (c: PromoCondition) => `${c.category || "ทุกหมวด"}${c.field ? `.${c.field} ${PROMO_OPERATORS[c.op]} "${c.value}"` : ""}`;
+  const status = (p: Promotion) => {
+    const today = localDate(Date.now());
+    if (!p.enabled) return "ปิดอยู่";
+    if (p.startDate && today < p.startDate) return `เริ่ม ${p.startDate}`;
+    if (p.endDate && today > p.endDate) return "หมดอายุ";
+    return p.endDate ? `ถึง ${p.endDate}` : "ใช้งานอยู่";
+  };
+  const save = (p: Promotion) => {
+    if (p.coupon && promotions.some(x => x.id !== p.id && couponKey(x.coupon) === p.coupon)) { toast.error(`คูปอง ${p.coupon} ถูกใช้กับโปรโมชันอื่นแล้ว`); return; }
+    setPromotions(promotions.some(x => x.id === p.id) ? promotions.map(x => x.id === p.id ? p : x) : [...promotions, p]);
+    setEditing(null); toast.success("บันทึกโปรโมชันแล้ว");
+  };
+  const blank = (): Promotion => ({ id: uid(), name: "", enabled: true, kind: "line", conditions: [{ category: "", field: "", op: "equals", value: "" }], discountType: "percent", discountValue: 5, startDate: "", endDate: "", priority: 100, stackable: true, coupon: "" });
+  const sorted = [...promotions].sort((a, b) => a.priority - b.priority);
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader><CardTitle className="flex items-center gap-2"><BadgePercent className="w-5 h-5"/> โปรโมชัน</CardTitle></CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center gap-2">
+          <div className="text-sm text-muted-foreground">โปรโมชันคิดก่อนส่วนลดท้ายบิล เรียงตามลำดับจากน้อยไปมาก</div>
+          <div className="ml-auto"><Button onClick={()=>setEditing(blank())}><Plus className="w-4 h-4 mr-2"/> เพิ่มโปรโมชัน</Button></div>
+        </div>
+        <div className="border rounded-2xl overflow-hidden">
+          {sorted.map(p => (
+            <div key={p.id} className={`grid grid-cols-12 items-center gap-2 px-4 py-2 border-t first:border-t-0 text-sm ${p.enabled ? '' : 'opacity-50'}`}>
+              <div className="col-span-5 min-w-0">
+                <div className="font-medium truncate">{p.name} {p.coupon && <Badge variant="secondary">คูปอง {p.coupon}</Badge>}</div>
+                <div className="text-xs text-muted-foreground font-mono truncate">{p.kind==="bundle" ? "ชุด: " : ""}{p.conditions.map(describeCondition).join(p.kind==="bundle" ? " + " : " และ ")}</div>
+              </div>
+              <div className="col-span-2">{p.discountType==="percent" ? `ลด ${p.discountValue}%` : `ลด ${baht(p.discountValue)}`}</div>
+              <div className="col-span-3 text-xs text-muted-foreground">#{p.priority} • {p.stackable ? "ใช้ร่วมได้" : "ไม่ร่วมโปรอื่น"} • {status(p)}</div>
+              <div className="col-span-2 flex justify-end gap-2">
+                <Button variant="secondary" onClick={()=>setPromotions(promotions.map(x => x.id===p.id ? { ...x, enabled: !x.enabled } : x))}>{p.enabled ? "ปิด" : "เปิด"}</Button>
+                <Button variant="secondary" onClick={()=>setEditing(p)} title="แก้ไข"><Edit className="w-4 h-4"/></Button>
+                <Button variant="destructive" onClick={()=>{ if (confirm(`ลบโปรโมชัน "${p.name}"?`)) setPromotions(promotions.filter(x => x.id!==p.id)); }} title="ลบ"><Trash2 className="w-4 h-4"/></Button>
+              </div>
+            </div>
+          ))}
+          {!promotions.length && <div className="px-4 py-3 text-sm text-muted-foreground">ยังไม่มีโปรโมชัน</div>}
+        </div>
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(o)=>{ if(!o) setEditing(null); }}>
+        <DialogContent className="sm:max-w-[760px] relative">
+          <DialogHeader><DialogTitle>{editing && promotions.some(p => p.id===editing.id) ? "แก้ไขโปรโมชัน" : "เพิ่มโปรโมชัน"}</DialogTitle></DialogHeader>
+          <button onClick={()=>setEditing(null)} className="absolute right-3 top-3 p-1.5 rounded-full hover:bg-slate-100" aria-label="ปิด"><X className="w-5 h-5"/></button>
+          {editing && <PromotionForm key={editing.id} initial={editing} categories={categories.map(c => c.name)} attrKeys={attrKeys} onSave={save} />}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+// ===== Category Registry Editor =====
+const ATTR_FIELD_TYPES: Record<AttrFieldType, string> = { text: "ข้อความ", number: "ตัวเลข", select: "ตัวเลือกเดียว", multi: "หลายตัวเลือก" };
+function CategoryForm({ initial, isNew, names, onSave }:{ initial: CategoryDef; isNew: boolean; names: string[]; onSave:(c: CategoryDef)=>void }){
+  const [cat, setCat] = useState<CategoryDef>(initial);
+  const set = (patch: Partial<CategoryDef>) => setCat(c => ({ ...c, ...patch }));
+  const setField = (i: number, patch: Partial<AttrField>) => set({ fields: cat.fields.map((f, j) => j===i ? { ...f, ...patch } : f) });
+  const save = () => {
+    const name = cat.name.trim();
+    if (!name) { toast.error("กรุณาตั้งชื่อหมวด"); return; }
+    if (isNew && names.some(n => n.toLowerCase() === name.toLowerCase())) { toast.error(`มีหมวด ${name} อยู่แล้ว`); return; }
+    const keys = cat.fields.map(f => f.key.trim());
+    if (keys.some(k => !k)) { toast.error("คุณสมบัติทุกช่องต้องมีคีย์"); return; }
+    if (new Set(keys).size !== keys.length) { toast.error("คีย์คุณสมบัติซ้ำกัน"); return; }
+    onSave({ ...cat, name, label: cat.label?.trim() || undefined, fields: cat.fields.map(f => ({ ...f, key: f.key.trim(), label: f.label.trim() || f.key.trim() })) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div><Label>ชื่อหมวด (ใช้ในไฟล์นำเข้า)</Label><Input value={cat.name} disabled={!isNew} onChange={(e)=>set({ name: e.target.value })} placeholder="เช่น UPS, Keyboard"/></div>
+        <div><Label>ชื่อที่แสดง</Label><Input value={cat.label || ""} onChange={(e)=>set({ label: e.target.value })} placeholder="ว่าง = ใช้ชื่อหมวด"/></div>
+        <div>
+          <Label>ใช้เป็น</Label>
+          {cat.builtin ? <div className="text-sm py-2">{cat.kind==="base" ? "อุปกรณ์หลัก" : "Option เสริม"}</div> : (
+            <Select value={cat.kind} onValueChange={(v)=>set({ kind: v as CategoryDef["kind"] })}>
+              <SelectTrigger><SelectValue/></SelectTrigger>
+              <SelectContent><SelectItem value="base">อุปกรณ์หลัก</SelectItem><SelectItem value="addon">Option เสริม</SelectItem></SelectContent>
+            </Select>
+          )}
+        </div>
+        {cat.kind==="base" && <div><Label>จำนวนสูงสุดต่อสเปค</Label><Input type="number" min={1} value={cat.maxQty} onChange={(e)=>set({ maxQty: Math.max(1, Number(e.target.value||1)) })}/></div>}
+      </div>
+      <div>
+        <Label>ไอคอน</Label>
+        <div className="flex flex-wrap gap-2 mt-1">
+          {Object.entries(CATEGORY_ICONS).map(([key, Icon]) => (
+            <Button key={key} type="button" variant="secondary" size="icon" className={cat.icon===key ? "ring-2 ring-slate-900" : ""} onClick={()=>set({ icon: key })} title={key}><Icon className="w-4 h-4"/></Button>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>คุณสมบัติ</Label>
+          <Button variant="secondary" onClick={()=>set({ fields: [...cat.fields, { key: "", label: "", type: "text" }] })}><Plus className="w-4 h-4 mr-2"/> เพิ่มคุณสมบัติ</Button>
+        </div>
+        <div className="grid grid-cols-12 gap-2 text-xs text-muted-foreground px-1">
+          <div className="col-span-2">คีย์</div><div className="col-span-3">ชื่อ</div><div className="col-span-2">ชนิด</div><div className="col-span-1">หน่วย</div><div className="col-span-2">ตัวเลือก (คั่นด้วย ,)</div><div className="col-span-1">ตัวกรอง</div>
+        </div>
+        <div className="max-h-[300px] overflow-auto space-y-2">
+          {cat.fields.length===0 && <div className="text-sm text-muted-foreground">ยังไม่มีคุณสมบัติ</div>}
+          {cat.fields.map((f, i) => (
+            <div key={i} className="grid grid-cols-12 gap-2 items-center">
+              <div className="col-span-2"><Input value={f.key} onChange={(e)=>setField(i, { key: e.target.value })} placeholder="vaRating"/></div>
+              <div className="col-span-3"><Input value={f.label} onChange={(e)=>setField(i, { label: e.target.value })} placeholder="ขนาด VA"/></div>
+              <div className="col-span-2">
+                <Select value={f.type} onValueChange={(v)=>setField(i, { type: v as AttrFieldType })}>
+                  <SelectTrigger><SelectValue/></SelectTrigger>
+                  <SelectContent>{(Object.keys(ATTR_FIELD_TYPES) as AttrFieldType[]).map(t => <SelectItem key={t} value={t}>{ATTR_FIELD_TYPES[t]}</SelectItem>)}</SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-1"><Input value={f.unit || ""} onChange={(e)=>setField(i, { unit: e.target.value || undefined })}/></div>
+              <div className="col-span-2">
+                {(f.type==="select" || f.type==="multi") && <Input value={(f.options || []).join(", ")} onChange={(e)=>setField(i, { options: e.target.value.split(",").map(x=>x.trim()).filter(Boolean) })}/>}
+              </div>
+              <div className="col-span-1 text-center">{cat.kind==="base" && <input type="checkbox" checked={!!f.filter} onChange={(e)=>setField(i, { filter: e.target.checked || undefined })}/>}</div>
+              <div className="col-span-1 flex justify-end"><Button variant="destructive" size="icon" onClick={()=>set({ fields: cat.fields.filter((_, j) => j!==i) })} title="ลบ"><Trash2 className="w-4 h-4"/></Button></div>
+            </div>
+          ))}
+        </div>
+        <div className="text-xs text-muted-foreground">* คีย์คือชื่อ attribute ที่เก็บในสินค้า และใช้เป็นหัวคอลัมน์ตอนนำเข้า Excel; ติ๊ก “ตัวกรอง” เพื่อแสดงเป็นตัวกรองในหน้าจัดสเปค</div>
+      </div>
+      <div className="flex justify-end"><Button onClick={save}><Save className="w-4 h-4 mr-2"/> บันทึกหมวด</Button></div>
+    </div>
+  );
+}
+
+function CategoryRegistryEditor({ categories, setCategories, inventory, onDelete }:{ categories: CategoryDef[]; setCategories:(c: CategoryDef[])=>void; inventory: Product[]; onDelete:(name: string)=>void }){
+  const [editing, setEditing] = useState<CategoryDef | null>(null);
+  const isNew = !!editing && !categories.some(c => c.name === editing.name);
+  const count = (name: string) => inventory.filter(p => p.category === name).length;
+  const save = (c: CategoryDef) => {
+    setCategories(categories.some(x => x.name === c.name) ? categories.map(x => x.name === c.name ? c : x) : [...categories, c]);
+    setEditing(null); toast.success(`บันทึกหมวด ${c.name} แล้ว`);
+  };
+  const remove = (c: CategoryDef) => {
+    const n = count(c.name);
+    if (n) { toast.error(`ยังมีสินค้า ${n} รายการในหมวด ${c.name}`); return; }
+    if (!confirm(`ลบหมวด ${c.name}?`)) return;
+    onDelete(c.name);
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader><CardTitle className="flex items-center gap-2"><Tags className="w-5 h-5"/> หมวดสินค้า</CardTitle></CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center gap-2">
+          <div className="text-sm text-muted-foreground">หมวดและคุณสมบัติใช้กำหนดฟอร์มสินค้า คอลัมน์นำเข้า ตัวกรอง และช่องเลือกในหน้าจัดสเปค</div>
+          <div className="ml-auto"><Button onClick={()=>setEditing({ name: "", kind: "addon", icon: "box", maxQty: 1, fields: [] })}><Plus className="w-4 h-4 mr-2"/> เพิ่มหมวด</Button></div>
+        </div>
+        <div className="border rounded-2xl overflow-hidden">
+          <div className="grid grid-cols-12 bg-muted/50 px-4 py-2 text-sm font-semibold">
+            <div className="col-span-4">หมวด</div><div className="col-span-2">ใช้เป็น</div><div className="col-span-1 text-right">สูงสุด</div><div className="col-span-2 text-right">คุณสมบัติ</div><div className="col-span-1 text-right">สินค้า</div><div className="col-span-2 text-right">จัดการ</div>
+          </div>
+          {categories.map(c => (
+            <div key={c.name} className="grid grid-cols-12 items-center px-4 py-2 border-t text-sm">
+              <div className="col-span-4 flex items-center gap-2 min-w-0">{categoryIcon(categories, c.name)}<span className="font-medium truncate">{c.label || c.name}</span>{c.builtin && <Badge variant="secondary">ค่าเริ่มต้น</Badge>}</div>
+              <div className="col-span-2">{c.kind==="base" ? "อุปกรณ์หลัก" : "Option เสริม"}</div>
+              <div className="col-span-1 text-right">{c.kind==="base" ? c.maxQty : "-"}</div>
+              <div className="col-span-2 text-right">{c.fields.length}</div>
+              <div className="col-span-1 text-right">{count(c.name)}</div>
+              <div className="col-span-2 flex justify-end gap-2">
+                <Button variant="secondary" onClick={()=>setEditing(c)} title="แก้ไข"><Edit className="w-4 h-4"/></Button>
+                {!c.builtin && <Button variant="destructive" onClick={()=>remove(c)} title="ลบ"><Trash2 className="w-4 h-4"/></Button>}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(o)=>{ if(!o) setEditing(null); }}>
+        <DialogContent className="sm:max-w-[860px] relative">
+          <DialogHeader><DialogTitle>{isNew ? "เพิ่มหมวด" : `แก้ไขหมวด ${editing?.name}`}</DialogTitle></DialogHeader>
+          <button onClick={()=>setEditing(null)} className="absolute right-3 top-3 p-1.5 rounded-full hover:bg-slate-100" aria-label="ปิด"><X className="w-5 h-5"/></button>
+          {editing && <CategoryForm key={editing.name || "new"} initial={editing} isNew={isNew} names={categories.map(c => c.name)} onSave={save} />}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+// ===== Add-ons Picker =====
+function AddonsPicker({ inventory, categories, addons, addAddon, updateQty, removeAddon, sortMode }:{ inventory: Product[]; categories: CategoryDef[]; addons: AddonEntry[]; addAddon:(p:Product, qty:number)=>void; updateQty:(id:string, qty:number)=>void; removeAddon:(id:string)=>void; sortMode: SortMode; }){
+  const addonCats = useMemo(()=>categories.filter(c => c.kind==="addon"), [categories]);
+  const byCat = useMemo(()=>{
+    const map: Record<Category, Product[]> = Object.fromEntries(addonCats.map(c=>[c.name,[]]));
+    for (const p of inventory) if (p.stock>0) own(map, p.category)?.push(p);
+    return map;
+  }, [inventory, addonCats]);
+
+  const [selected, setSelected] = useState<Record<Category, string>>({});
+  const [qtys, setQtys] = useState<Record<Category, number>>({});
+
+  const add = (cat: Category, id: string, qty: number) => {
+    const items = own(byCat, cat) || []; const product = items.find(p=>p.id===id); if (!product){ toast.error("กรุณาเลือกสินค้า"); return; }
+    if (qty < 1) { toast.error("จำนวนอย่างน้อย 1"); return; }
+    addAddon(product, qty);
+    toast.success(`เพิ่ม ${product.name} x${qty}`);
+  };
+
+  const totalAddons = addons.reduce((s,a)=>s + a.product.price * a.qty, 0);
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader><CardTitle className="flex items-center gap-2"><Sparkles className="w-5 h-5"/> Option เสริม</CardTitle></CardHeader>
+      <CardContent className="space-y-4">
+        {addonCats.map(({ name: cat, label }) => (
+          <div key={cat} className="grid grid-cols-12 items-center gap-2 p-2 rounded-xl hover:bg-muted/40">
+            <div className="col-span-3 font-medium flex items-center gap-2">{categoryIcon(categories, cat)} {label || cat}</div>
+            <div className="col-span-6">
+              <Select value={own(selected, cat) || ""} onValueChange={(v)=>setSelected(s=>({ ...s, [cat]: v }))}>
+                <SelectTrigger className="w-full"><SelectValue placeholder={`เลือก ${cat}`} /></SelectTrigger>
+                <SelectContent>
+                  {sortProducts(byCat[cat] || [], sortMode).map(p=>(<SelectItem key={p.id} value={p.id}>{p.name} — {baht(p.price)}</SelectItem>))}
+                  {!byCat[cat]?.length && <div className="px-3 py-2 text-muted-foreground">ไม่มีสินค้า</div>}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-2">
+              <Input type="number" min={1} value={own(qtys, cat) ?? 1} onChange={(e)=>setQtys(q=>({ ...q, [cat]: Math.max(1, Number(e.target.value||1)) }))} />
+            </div>
+            <div className="col-span-1">
+              <Button onClick={()=>add(cat, own(selected, cat) || "", own(qtys, cat) ?? 1)}>เพิ่ม</Button>
+            </div>
+          </div>
+        ))}
+
+        {/* List */}
+        <div className="border rounded-2xl">
+          <div className="grid grid-cols-12 bg-muted/50 px-4 py-2 text-sm font-semibold">
+            <div className="col-span-6">รายการ</div><div className="col-span-2 text-center">จำนวน</div><div className="col-span-2 text-right">ต่อชิ้น</div><div className="col-span-2 text-right">รวม</div>
+          </div>
+          <div className="max-h-60 overflow-auto">
+            {addons.length===0 ? <div className="px-4 py-3 text-muted-foreground">ยังไม่มี Option เสริม</div> : addons.map(a=>(
+              <div key={a.id} className="grid grid-cols-12 items-center px-4 py-2 border-t text-sm">
+                <div className="col-span-6 flex items-center gap-2"><Badge variant="secondary">{a.product.category}</Badge><span className="truncate" title={a.product.name}>{a.product.name}</span></div>
+                <div className="col-span-2 text-center"><Input type="number" min={1} value={a.qty} onChange={(e)=>updateQty(a.id, Math.max(1, Number(e.target.value||1)))} /></div>
+                <div className="col-span-2 text-right">{baht(a.product.price)}</div>
+                <div className="col-span-2 text-right flex items-center justify-end gap-2">{baht(a.product.price * a.qty)}<Button variant="destructive" onClick={()=>removeAddon(a.id)}><Trash2 className="w-4 h-4"/></Button></div>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end px-4 py-2 font-semibold">รวม Option เสริม: {baht(totalAddons)}</div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// ===== Promotions =====
+// Promotions are data like compatibility rules. A "line" promotion discounts every line matching all its
+// conditions; a "bundle" needs each condition met by its own unit (see lib/promotions) and discounts once per complete set.
+// Lower priority numbers run first; a non-stackable promotion skips lines already discounted and locks the ones it uses.
+type PromoOperator = "equals"|"contains"|"gte"|"lte";
+// field: "" = any product in the category, "#name" = product name, anything else = attribute key
+type PromoCondition = { category: Category | ""; field: string; op: PromoOperator; value: string };
+type Promotion = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  kind: "line" | "bundle";
+  conditions: PromoCondition[];
+  discountType: "percent" | "fixed";
+  discountValue: number;
+  startDate: string; // YYYY-MM-DD, blank = open-ended
+  endDate: string;
+  priority: number;
+  stackable: boolean;
+  coupon: string; // blank = automatic
 };
-function Summary({ build, onReset, pricing, setPricing, required }:{ build: BuildState, onReset: ()=>void, pricing: Pricing, setPricing: (p:Pricing)=>void, required: BaseCategory[] }){
+type AppliedPromotion = { id: string; name: string; amount: number; items: string[] };
+
+const PROMO_OPERATORS: Record<PromoOperator, string> = { equals: "เท่ากับ", contains: "มีคำว่า", gte: "≥", lte: "≤" };
+const DEFAULT_PROMOTIONS: Promotion[] = [
+  { id: "example-board-ryzen", name: "ซื้อเมนบอร์ดคู่ CPU Ryzen ลด 500", enabled: false, kind: "bundle",
+    conditions: [{ category: "Motherboard", field: "", op: "equals", value: "" }, { category: "CPU", field: "#name", op: "contains", value: "Ryzen" }],
+    discountType: "fixed", discountValue: 500, startDate: "", endDate: "", priority: 10, stackable: true, coupon: "" },
+  { id: "example-monitor-10", name: "จอมอนิเตอร์ลด 10% ประจำเดือน", enabled: false, kind: "line",
+    conditions: [{ category: "Monitor", field: "", op: "equals", value: "" }],
+    discountType: "percent", discountValue: 10, startDate: "", endDate: "", priority: 20, stackable: true, coupon: "" },
+];
+
+const localDate = (ts: number) => { const d = new Date(ts); return `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,"0")}-${String(d.getDate()).padStart(2,"0")}`; };
+const couponKey = (c: string) => c.trim().toUpperCase();
+function promoActive(p: Promotion, at: number, coupons: string[]): boolean {
+  const day = localDate(at);
+  if (!p.enabled || (p.startDate && day < p.startDate) || (p.endDate && day > p.endDate)) return false;
+  return !p.coupon.trim() || coupons.some(c => couponKey(c) === couponKey(p.coupon));
+}
+function matchesPromoCondition(p: Product, c: PromoCondition): boolean {
+  if (c.category && p.category !== c.category) return false;
+  if (!c.field) return true;
+  const v = c.field === "#name" ? p.name : p.attributes?.[c.field];
+  if (isMissing(v)) return false;
+  const values = c.field === "#name" ? [String(v)] : asList(v), want = c.value.trim().toLowerCase();
+  switch (c.op) {
+    case "equals": return values.some(x => x.toLowerCase() === want);
+    case "contains": return values.some(x => x.toLowerCase().includes(want));
+    case "gte": return values.some(x => Number(x) >= Number(c.value));
+    case "lte": return values.some(x => Number(x) <= Number(c.value));
+  }
+}
+
+// Works in satang like lib/pricing; a line can never be discounted below zero, whatever the promotions add up to
+function applyPromotions(build: BuildState, tier: PriceTier, promotions: Promotion[], at: number, coupons: string[]): AppliedPromotion[] {
+  type PromoLine = { product: Product; qty: number; unit: number; left: number; discounted: boolean; locked: boolean };
+  const byId = new Map<string, PromoLine>();
+  for (const e of [...baseEntries(build.base), ...build.addons]) {
+    const l = byId.get(e.product.id), amount = lineAmount(tierPrice(e.product, tier), e.qty);
+    if (l) { l.qty += e.qty; l.left += amount; }
+    else byId.set(e.product.id, { product: e.product, qty: e.qty, unit: toSatang(tierPrice(e.product, tier)), left: amount, discounted: false, locked: false });
+  }
+  const lines = Array.from(byId.values());
+  const out: AppliedPromotion[] = [];
+  for (const promo of promotions.filter(p => promoActive(p, at, coupons)).sort((a, b) => a.priority - b.priority)) {
+    const usable = lines.filter(l => !l.locked && l.left > 0 && (promo.stackable || !l.discounted));
+    const used: PromoLine[] = [];
+    let amount = 0;
+    const take = (l: PromoLine, want: number) => {
+      const x = Math.min(l.left, Math.max(0, want));
+      if (x <= 0) return 0;
+      l.left -= x; amount += x;
+      if (!used.includes(l)) used.push(l);
+      return x;
+    };
+    if (promo.kind === "line") {
+      for (const l of usable.filter(l => promo.conditions.every(c => matchesPromoCondition(l.product, c))))
+        take(l, promo.discountType === "percent" ? percentOf(l.unit * l.qty, promo.discountValue) : toSatang(promo.discountValue) * l.qty);
+    } else {
+      const match = matchBundle(promo.conditions, usable, (l, c) => matchesPromoCondition(l.product, c), l => l.qty);
+      if (!match) continue;
+      const { lines: claimed, sets } = match;
+      if (promo.discountType === "percent") for (const l of claimed) take(l, percentOf(l.unit * sets, promo.discountValue));
+      else { let rest = toSatang(promo.discountValue) * sets; for (const l of claimed) rest -= take(l, rest); }
+      for (const l of claimed) if (amount > 0 && !used.includes(l)) used.push(l);
+    }
+    if (amount <= 0) continue;
+    for (const l of used) { l.discounted = true; if (!promo.stackable) l.locked = true; }
+    out.push({ id: promo.id, name: promo.name, amount: fromSatang(amount), items: used.map(l => l.product.name) });
+  }
+  return out;
+}
+
+// ===== Payment plans =====
+const DEFAULT_PAYMENT_PLANS: PaymentPlan[] = [
+  { id: "card-0-10", name: "บัตรเครดิต 0% 10 เดือน", enabled: true, months: 10, rateKind: "fee", ratePercent: 6.5, absorbedBy: "shop", minAmount: 10000 },
+  { id: "card-3-fee", name: "ผ่อน 3 เดือน", enabled: true, months: 3, rateKind: "fee", ratePercent: 3, absorbedBy: "customer", minAmount: 3000 },
+  { id: "card-6-089", name: "ผ่อน 6 เดือน ดอกเบี้ย 0.89%", enabled: false, months: 6, rateKind: "monthly", ratePercent: 0.89, absorbedBy: "customer", minAmount: 5000 },
+];
+const planTerms = (p: PaymentPlan) => `${p.ratePercent}%${p.rateKind === "monthly" ? " ต่อเดือน" : ""}${p.absorbedBy === "shop" ? " (ร้านรับภาระ)" : ""}`;
+
+// Plans below their minimum are listed as such rather than hidden, so staff can tell the customer how far off they are
+function installmentRowsHtml(total: number, plans: PaymentPlan[], fmt: (n: number) => string): string {
+  const rows = plans.filter(p => p.enabled).map(p => {
+    const i = installment(total, p);
+    return i.eligible
+      ? `<tr><td>${escapeHtml(p.name)}</td><td style="text-align:right">${fmt(i.monthly)} × ${p.months} เดือน</td><td style="text-align:right">${fmt(i.payable)}</td></tr>`
+      : `<tr><td>${escapeHtml(p.name)}</td><td colspan="2" style="text-align:right; color:#64748b">ยอดขั้นต่ำ ${fmt(p.minAmount)}</td></tr>`;
+  }).join("");
+  return rows ? `<table style="margin-top:12px"><thead><tr><th>ผ่อนชำระ</th><th style="text-align:right">ต่อเดือน</th><th style="text-align:right">รวมที่ชำระ</th></tr></thead><tbody>${rows}</tbody></table>` : "";
+}
+
+function PaymentPlansEditor({ plans, setPlans }:{ plans: PaymentPlan[]; setPlans: (p: PaymentPlan[])=>void }){
+  const update = (id: string, patch: Partial<PaymentPlan>) => setPlans(plans.map(p => p.id === id ? { ...p, ...patch } : p));
+  const add = () => setPlans([...plans, { id: uid(), name: "ผ่อน 6 เดือน", enabled: true, months: 6, rateKind: "fee", ratePercent: 0, absorbedBy: "customer", minAmount: 3000 }]);
+  return (
+    <Card className="shadow-sm">
+      <CardHeader><CardTitle className="flex items-center gap-2"><CreditCard className="w-5 h-5"/> แผนผ่อนชำระ</CardTitle></CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center gap-2">
+          <div className="text-sm text-muted-foreground">แสดงในสรุปสเปค ข้อความคัดลอก และใบเสนอราคา — ค่างวดปัดขึ้นเป็นสตางค์ งวดสุดท้ายรับเศษ</div>
+          <div className="ml-auto flex gap-2">
+            <Button variant="secondary" onClick={()=>{ if (confirm("คืนค่าแผนผ่อนเริ่มต้น?")) setPlans(DEFAULT_PAYMENT_PLANS); }}>คืนค่าเริ่มต้น</Button>
+            <Button onClick={add}><Plus className="w-4 h-4 mr-2"/> เพิ่มแผน</Button>
+          </div>
+        </div>
+        <div className="border rounded-2xl overflow-hidden">
+          <div className="grid grid-cols-12 gap-2 px-4 py-2 bg-muted/40 text-xs text-muted-foreground">
+            <div className="col-span-3">ชื่อแผน</div><div className="col-span-1">เดือน</div><div className="col-span-3">ดอกเบี้ย / ค่าธรรมเนียม %</div><div className="col-span-2">ผู้รับภาระ</div><div className="col-span-2">ยอดขั้นต่ำ</div><div className="col-span-1" />
+          </div>
+          {plans.map(p => (
+            <div key={p.id} className={`grid grid-cols-12 gap-2 items-center px-4 py-2 border-t text-sm ${p.enabled ? "" : "opacity-50"}`}>
+              <div className="col-span-3"><Input value={p.name} onChange={e=>update(p.id, { name: e.target.value })} /></div>
+              <div className="col-span-1"><Input type="number" min={1} value={p.months} onChange={e=>update(p.id, { months: Math.max(1, Math.floor(Number(e.target.value||1))) })} /></div>
+              <div className="col-span-3 flex gap-2">
+                <Input type="number" min={0} step="0.01" className="w-20" value={p.ratePercent} onChange={e=>update(p.id, { ratePercent: Math.max(0, Number(e.target.value||0)) })} />
+                <Select value={p.rateKind} onValueChange={(v)=>update(p.id, { rateKind: v as PaymentPlan["rateKind"] })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent><SelectItem value="fee">ครั้งเดียว</SelectItem><SelectItem value="monthly">ต่อเดือน</SelectItem></SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-2">
+                <Select value={p.absorbedBy} onValueChange={(v)=>update(p.id, { absorbedBy: v as PaymentPlan["absorbedBy"] })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent><SelectItem value="customer">ลูกค้า</SelectItem><SelectItem value="shop">ร้าน</SelectItem></SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-2"><Input type="number" min={0} value={p.minAmount} onChange={e=>update(p.id, { minAmount: Math.max(0, Number(e.target.value||0)) })} /></div>
+              <div className="col-span-1 flex justify-end gap-1">
+                <Button variant="secondary" onClick={()=>update(p.id, { enabled: !p.enabled })}>{p.enabled ? "ปิด" : "เปิด"}</Button>
+                <Button variant="destructive" onClick={()=>setPlans(plans.filter(x => x.id !== p.id))} title="ลบ"><Trash2 className="w-4 h-4"/></Button>
+              </div>
+            </div>
+          ))}
+          {!plans.length && <div className="px-4 py-3 text-sm text-muted-foreground border-t">ยังไม่มีแผนผ่อนชำระ</div>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// ===== Summary =====
+// Lines are priced at the build's tier, so profit / margin compare the tier price against cost.
+// The arithmetic itself lives in lib/pricing (integer satang, explicit rounding).
+function calcTotals(build: BuildState, pricing: Pricing, tier: PriceTier = "retail", promotions: AppliedPromotion[] = []){
+  const lines = [
+    ...baseEntries(build.base).map(e => ({ price: tierPrice(e.product, tier), cost: e.product.cost, qty: e.qty })),
+    ...build.addons.map(a => ({ price: tierPrice(a.product, tier), cost: a.product.cost, qty: a.qty, addon: true })),
+  ];
+  return computeTotals(lines, pricing, promotions.map(p => p.amount));
+}
+const vatLabel = (p: Pricing) => `VAT ${p.vatPercent}%${p.vatMode === "inclusive" ? " (รวมในราคาแล้ว)" : ""}`;
+
+// An id that is not a valid PromptPay target just shows nothing here; Shop settings flags it
+function PromptPayQR({ id, amount }:{ id: string; amount: number }){
+  const svg = useMemo(() => promptPayTarget(id) && amount > 0 ? qrSvg(promptPayPayload(id, amount), 160) : "", [id, amount]);
+  if (!svg) return null;
+  return (
+    <div className="flex items-center gap-4 rounded-xl px-3 py-2 bg-muted/30">
+      <div className="shrink-0" dangerouslySetInnerHTML={{ __html: svg }} />
+      <div className="text-sm space-y-1">
+        <div className="font-medium">สแกนจ่ายพร้อมเพย์</div>
+        <div className="text-lg font-bold">{baht(amount)}</div>
+        <div className="text-muted-foreground">บัญชี {id}</div>
+      </div>
+    </div>
+  );
+}
+
+function Summary({ build, tier, setTier, plans, promptPayId, promos, coupons, onAddCoupon, onRemoveCoupon, onReset, pricing, setPricing, baseCategories, required, soldAt, onCloseSale, onShare, onQuote, onInvoice, driftCount=0 }:{ build: BuildState, tier: PriceTier, setTier: (t: PriceTier)=>void, plans: PaymentPlan[], promptPayId: string, promos: AppliedPromotion[], coupons: string[], onAddCoupon: (code: string)=>boolean, onRemoveCoupon: (code: string)=>void, onReset: ()=>void, pricing: Pricing, setPricing: (p:Pricing)=>void, baseCategories: BaseCategory[], required: BaseCategory[], soldAt?: number, onCloseSale: ()=>StockIssue[], onShare: ()=>void, onQuote: ()=>void, onInvoice: ()=>void, driftCount?: number }){
   const [showAll, setShowAll] = useState(false);
-  const baseAllRows = BASE_CATEGORIES.map(c => ({ c, p: build.base[c] as Product | undefined }));
-  const baseSelected = baseAllRows.filter(r=>!!r.p) as {c: BaseCategory, p: Product}[];
-
-  const baseTotal = baseSelected.reduce((s, {p}) => s + p.price, 0);
-  const addonTotal = build.addons.reduce((s,a)=>s + a.product.price*a.qty, 0);
-  const subtotal = baseTotal + addonTotal;
-  const missingRequired = required.filter(c => !build.base[c]);
-
-  const discount = pricing.discountType==='percent' ? Math.min(subtotal, subtotal * (pricing.discountValue||0) / 100) :
-                    pricing.discountType==='fixed' ? Math.min(subtotal, (pricing.discountValue||0)) : 0;
-  const netBeforeVAT = Math.max(0, subtotal - discount);
-  const vat = pricing.vatEnabled ? netBeforeVAT * (pricing.vatPercent||0) / 100 : 0;
-  const total = netBeforeVAT + vat;
-
-  const baseCost = baseSelected.reduce((s,{p})=>s + (typeof p.cost==="number" ? p.cost : 0),0);
-  const addonCost = build.addons.reduce((s,a)=>s + (typeof a.product.cost==="number" ? a.product.cost*a.qty : 0),0);
-  const costTotal = baseCost + addonCost;
-  const profit = netBeforeVAT - costTotal;
-  const margin = netBeforeVAT>0 ? (profit/netBeforeVAT)*100 : 0;
+  const [stockIssues, setStockIssues] = useState<StockIssue[]>([]);
+  const [couponDraft, setCouponDraft] = useState("");
+  type SummaryRow = { key: string; c: BaseCategory; p?: Product; qty: number };
+  // registry order first; categories removed from the registry still show if the build has them
+  const rowCategories = [...baseCategories, ...Object.keys(build.base).filter(c => !baseCategories.includes(c))];
+  const baseAllRows = rowCategories.flatMap((c): SummaryRow[] => {
+    const entries = own(build.base, c) || [];
+    return entries.length ? entries.map(e => ({ key: e.id, c, p: e.product, qty: e.qty })) : [{ key: c, c, qty: 0 }];
+  });
+  const baseSelected = baseAllRows.filter(r=>!!r.p);
+  const missingRequired = required.filter(c => !own(build.base, c)?.length);
+  const { subtotal, discount, vat, total, profit, margin } = calcTotals(build, pricing, tier, promos);
+  const price = (p: Product) => tierPrice(p, tier);
+  const installments = plans.filter(p => p.enabled).map(plan => ({ plan, ...installment(total, plan) }));
+
+  const handleCloseSale = () => {
+    if (missingRequired.length) { toast.error(`ยังขาดหมวดจำเป็น: ${missingRequired.join(", ")}`); return; }
+    if (!confirm(`ปิดการขาย ยอดรวม ${baht(total)} และตัดสต็อก?`)) return;
+    setStockIssues(onCloseSale());
+  };
 
   const handleCopy = async () => {
     const rows = showAll ? baseAllRows : baseAllRows.filter(r => !!r.p);
-    const lines: string[] = ["สรุปสเปคคอมพิวเตอร์"];
+    const lines: string[] = [tier === "retail" ? "สรุปสเปคคอมพิวเตอร์" : `สรุปสเปคคอมพิวเตอร์ (${tierLabel(tier)})`];
     for (const r of rows) {
-      if (r.p) lines.push(`- ${r.c}: ${r.p.name} (${baht(r.p.price)})`);
+      if (r.p) lines.push(`- ${r.c}: ${r.p.name}${r.qty>1 ? ` x${r.qty}` : ""} (${baht(price(r.p)*r.qty)})`);
       else lines.push(`- ${r.c}: — ไม่เลือก —`);
     }
     if (build.addons.length){
       lines.push("", "Option เสริม:");
-      for (const a of build.addons) lines.push(`- ${a.product.category}: ${a.product.name} x${a.qty} (${baht(a.product.price*a.qty)})`);
+      for (const a of build.addons) lines.push(`- ${a.product.category}: ${a.product.name} x${a.qty} (${baht(price(a.product)*a.qty)})`);
     }
-    lines.push("", `ส่วนลด: ${baht(discount)}${pricing.discountType==='percent' ? ` (${pricing.discountValue}%)` : ""}`);
-    if (pricing.vatEnabled) lines.push(`VAT ${pricing.vatPercent}%: ${baht(vat)}`);
+    lines.push("");
+    for (const p of promos) lines.push(`โปรโมชัน ${p.name}: -${baht(p.amount)}`);
+    lines.push(`ส่วนลด: ${baht(discount)}${pricing.discountType==='percent' ? ` (${pricing.discountValue}%)` : ""}`);
+    if (pricing.vatEnabled) lines.push(`${vatLabel(pricing)}: ${baht(vat)}`);
     lines.push(`รวมทั้งสิ้น: ${baht(total)}`);
+    const eligible = installments.filter(i => i.eligible);
+    if (eligible.length) {
+      lines.push("", "ผ่อนชำระ:");
+      for (const i of eligible) lines.push(`- ${i.plan.name}: ${baht(i.monthly)} x ${i.plan.months} เดือน (รวม ${baht(i.payable)})`);
+    }
     if (pricing.showCost) lines.push(`กำไร (ไม่รวม VAT): ${baht(profit)} • มาร์จิ้น: ${margin.toFixed(1)}%`);
     try { await navigator.clipboard.writeText(lines.join("\n")); toast.success("คัดลอกสรุปแล้ว"); } catch { toast.error("คัดลอกไม่สำเร็จ"); }
   };
@@ -688,11 +2069,11 @@ function Summary({ build, onReset, pricing, setPricing, required }:{ build: Buil
   const handlePrint = () => {
     const rows = showAll ? baseAllRows : baseAllRows.filter(r => !!r.p);
     const htmlRows = rows.map(r => r.p
-      ? `<tr><td>${r.c}</td><td>${r.p.name}</td><td>1</td><td style="text-align:right">${baht(r.p.price)}</td></tr>`
+      ? `<tr><td>${r.c}</td><td>${r.p.name}</td><td>${r.qty}</td><td style="text-align:right">${baht(price(r.p)*r.qty)}</td></tr>`
       : `<tr><td>${r.c}</td><td>— ไม่เลือก —</td><td>-</td><td style="text-align:right">-</td></tr>`
     ).join("");
     const htmlAddons = build.addons.map(a =>
-      `<tr><td>${a.product.category}</td><td>${a.product.name}</td><td>${a.qty}</td><td style="text-align:right">${baht(a.product.price*a.qty)}</td></tr>`
+      `<tr><td>${a.product.category}</td><td>${a.product.name}</td><td>${a.qty}</td><td style="text-align:right">${baht(price(a.product)*a.qty)}</td></tr>`
     ).join("");
 
     const w = window.open("", "_blank"); if (!w) return;
@@ -700,7 +2081,7 @@ function Summary({ build, onReset, pricing, setPricing, required }:{ build: Buil
       <html><head><title>สรุปสเปค</title>
       <style> body{font-family: ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto; padding:24px;} h1{font-size:20px;} table{width:100%; border-collapse:collapse} td,th{border:1px solid #ddd; padding:8px;} th{background:#f8fafc;text-align:left} tfoot td{font-weight:700}</style>
       </head><body>
-        <h1>สรุปสเปคคอมพิวเตอร์</h1>
+        <h1>สรุปสเปคคอมพิวเตอร์${tier === "retail" ? "" : ` (${tierLabel(tier)})`}</h1>
         ${missingRequired.length ? `<div style="padding:8px 12px; background:#fef2f2; color:#991b1b; border-radius:10px; margin-bottom:12px;">ยังขาดหมวดจำเป็น: ${missingRequired.join(", ")}</div>` : ""}
         <table>
           <thead><tr><th>หมวด</th><th>ชื่อ</th><th>จำนวน</th><th>ราคา</th></tr></thead>
@@ -709,11 +2090,13 @@ function Summary({ build, onReset, pricing, setPricing, required }:{ build: Buil
             ${htmlAddons}
           </tbody>
           <tfoot>
+            ${promos.map(p => `<tr><td colspan="3">โปรโมชัน: ${escapeHtml(p.name)}</td><td style="text-align:right">-${baht(p.amount)}</td></tr>`).join("")}
             <tr><td colspan="3">ส่วนลด</td><td style="text-align:right">${baht(discount)}</td></tr>
-            ${pricing.vatEnabled ? `<tr><td colspan="3">VAT ${pricing.vatPercent}%</td><td style="text-align:right">${baht(vat)}</td></tr>` : ""}
+            ${pricing.vatEnabled ? `<tr><td colspan="3">${vatLabel(pricing)}</td><td style="text-align:right">${baht(vat)}</td></tr>` : ""}
             <tr><td colspan="3">รวม</td><td style="text-align:right">${baht(total)}</td></tr>
           </tfoot>
         </table>
+        ${installmentRowsHtml(total, plans, baht)}
         ${pricing.showCost ? `<div style="margin-top:10px;">กำไร (ไม่รวม VAT): ${baht(profit)} • มาร์จิ้น: ${margin.toFixed(1)}%</div>` : ""}
       </body></html>
     `);
@@ -722,87 +2105,989 @@ function Summary({ build, onReset, pricing, setPricing, required }:{ build: Buil
 
   return (
     <Card className="shadow-sm">
-      <CardHeader><CardTitle className="flex items-center gap-2"><ShoppingCart className="w-5 h-5"/> สรุปสเปค & ราคา</CardTitle></CardHeader>
-      <CardContent className="space-y-4">
-        {missingRequired.length>0 && (
-          <div className="rounded-xl px-3 py-2 bg-red-50 text-red-700">
-            ยังขาดหมวดจำเป็น: {missingRequired.join(", ")}
-          </div>
-        )}
-
-        {/* Pricing controls */}
-        <div className="grid md:grid-cols-2 gap-3 p-3 rounded-xl bg-muted/40">
-          <div className="flex items-center gap-2">
-            <Label className="w-24">ส่วนลด</Label>
-            <Select value={pricing.discountType} onValueChange={(v)=>setPricing({ ...pricing, discountType: v as Pricing['discountType'] })}>
-              <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
-              <SelectContent>
-                <SelectItem value="none">ไม่มี</SelectItem>
-                <SelectItem value="percent">% </SelectItem>
-                <SelectItem value="fixed">จำนวนเงิน</SelectItem>
-              </SelectContent>
-            </Select>
-            <Input type="number" className="w-32" value={pricing.discountValue} onChange={e=>setPricing({ ...pricing, discountValue: Number(e.target.value||0) })} placeholder="เช่น 10" />
+      <CardHeader><CardTitle className="flex items-center gap-2"><ShoppingCart className="w-5 h-5"/> สรุปสเปค & ราคา</CardTitle></CardHeader>
+      <CardContent className="space-y-4">
+        {missingRequired.length>0 && (
+          <div className="rounded-xl px-3 py-2 bg-red-50 text-red-700">
+            ยังขาดหมวดจำเป็น: {missingRequired.join(", ")}
+          </div>
+        )}
+
+        {soldAt && (
+          <div className="rounded-xl px-3 py-2 bg-emerald-50 text-emerald-700">
+            ปิดการขายสเปคนี้แล้วเมื่อ {dateTime(soldAt)} — หากต้องการขายซ้ำให้ทำสำเนาสเปค
+          </div>
+        )}
+        {driftCount>0 && (
+          <div className="rounded-xl px-3 py-2 bg-amber-50 text-amber-700">
+            มี {driftCount} รายการที่ราคา/ข้อมูลไม่ตรงกับคลังสินค้า — ตรวจสอบและอัปเดตได้ที่แท็บจัดสเปค
+          </div>
+        )}
+        {stockIssues.length>0 && (
+          <div className="rounded-xl px-3 py-2 bg-red-50 text-red-700 space-y-1">
+            <div className="font-medium">ปิดการขายไม่ได้ สต็อกไม่พอ:</div>
+            {stockIssues.map(i => <div key={i.productId} className="text-sm">- {i.msg}</div>)}
+          </div>
+        )}
+
+        {/* Pricing controls */}
+        <div className="grid md:grid-cols-2 gap-3 p-3 rounded-xl bg-muted/40">
+          <div className="flex items-center gap-2 md:col-span-2">
+            <Label className="w-24">ระดับราคา</Label>
+            {PRICE_TIERS.map(t => <Chip key={t.id} active={tier===t.id} disabled={!!soldAt} onClick={()=>setTier(t.id)}>{t.label}</Chip>)}
+          </div>
+          <div className="flex items-center gap-2">
+            <Label className="w-24">ส่วนลด</Label>
+            <Select value={pricing.discountType} disabled={!!soldAt} onValueChange={(v)=>setPricing({ ...pricing, discountType: v as Pricing['discountType'] })}>
+              <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">ไม่มี</SelectItem>
+                <SelectItem value="percent">% </SelectItem>
+                <SelectItem value="fixed">จำนวนเงิน</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input type="number" className="w-32" value={pricing.discountValue} disabled={!!soldAt} onChange={e=>setPricing({ ...pricing, discountValue: Number(e.target.value||0) })} placeholder="เช่น 10" />
+          </div>
+          <div className="flex items-center gap-2">
+            <Label className="w-24">VAT</Label>
+            <Select value={pricing.vatEnabled ? "on" : "off"} disabled={!!soldAt} onValueChange={(v)=>setPricing({ ...pricing, vatEnabled: v==="on" })}>
+              <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
+              <SelectContent><SelectItem value="on">เปิด</SelectItem><SelectItem value="off">ปิด</SelectItem></SelectContent>
+            </Select>
+            <Input type="number" className="w-24" value={pricing.vatPercent} disabled={!!soldAt} onChange={e=>setPricing({ ...pricing, vatPercent: Number(e.target.value||0) })} />
+            <span className="text-sm text-muted-foreground">%</span>
+            <Select value={pricing.vatMode || "exclusive"} disabled={!!soldAt} onValueChange={(v)=>setPricing({ ...pricing, vatMode: v as VatMode })}>
+              <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+              <SelectContent><SelectItem value="exclusive">ราคายังไม่รวม VAT</SelectItem><SelectItem value="inclusive">ราคารวม VAT แล้ว</SelectItem></SelectContent>
+            </Select>
+            <div className="ml-auto flex items-center gap-2">
+              <Button variant="secondary" onClick={()=>setPricing({ ...pricing, showCost: !pricing.showCost })}>{pricing.showCost ? "ซ่อนกำไร" : "แสดงกำไร"}</Button>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 md:col-span-2">
+            <Label className="w-24">คูปอง</Label>
+            <Input className="w-40" value={couponDraft} disabled={!!soldAt} onChange={e=>setCouponDraft(e.target.value)} placeholder="รหัสคูปอง"
+              onKeyDown={e=>{ if (e.key==="Enter" && onAddCoupon(couponDraft)) setCouponDraft(""); }} />
+            <Button variant="secondary" onClick={()=>{ if (onAddCoupon(couponDraft)) setCouponDraft(""); }} disabled={!!soldAt} className={soldAt ? "opacity-50 cursor-not-allowed" : ""}>ใช้คูปอง</Button>
+            {coupons.map(c => <Chip key={c} active disabled={!!soldAt} onClick={()=>onRemoveCoupon(c)}>{c} <X className="w-3 h-3 inline"/></Chip>)}
+          </div>
+        </div>
+
+        {/* Rows */}
+        <div className="space-y-2">
+          {(showAll ? baseAllRows : baseAllRows.filter(r => !!r.p)).map((r) => (
+            r.p ? (
+              <div key={r.key} className="flex justify-between bg-muted/30 rounded-xl px-3 py-2"><div className="font-medium">{r.c}: <span className="font-normal">{r.p.name}</span>{r.qty>1 && <span className="text-xs text-muted-foreground font-normal"> x{r.qty}</span>}</div><div>{baht(price(r.p)*r.qty)}</div></div>
+            ) : (
+              <div key={r.key} className="flex justify-between bg-muted/10 rounded-xl px-3 py-2 text-muted-foreground"><div className="font-medium">{r.c}: <span className="font-normal">— ไม่เลือก —</span></div><div>-</div></div>
+            )
+          ))}
+
+          {build.addons.map(a => (
+            <div key={a.id} className="flex justify-between bg-muted/20 rounded-xl px-3 py-2"><div>{a.product.category}: {a.product.name} <span className="text-xs text-muted-foreground">x{a.qty}</span></div><div>{baht(price(a.product)*a.qty)}</div></div>
+          ))}
+
+          {!showAll && baseSelected.length===0 && build.addons.length===0 && <div className="text-muted-foreground">ยังไม่ได้เลือกชิ้นส่วน</div>}
+        </div>
+
+        {/* Totals */}
+        <div className="space-y-1 text-right">
+          <div>ยอดก่อนส่วนลด: <span className="font-medium">{baht(subtotal)}</span></div>
+          {promos.map(p => (
+            <div key={p.id} className="text-emerald-700" title={p.items.join(", ")}>โปรโมชัน {p.name}: <span className="font-medium">-{baht(p.amount)}</span></div>
+          ))}
+          <div>ส่วนลด: <span className="font-medium">{baht(discount)}</span></div>
+          {pricing.vatEnabled && <div>{vatLabel(pricing)}: <span className="font-medium">{baht(vat)}</span></div>}
+          <div className="text-lg font-bold">ยอดรวมสุทธิ: {baht(total)}</div>
+          {pricing.showCost && <div className="text-sm text-muted-foreground">กำไร (ไม่รวม VAT): {baht(profit)} • มาร์จิ้น {margin.toFixed(1)}%</div>}
+        </div>
+
+        <PromptPayQR id={promptPayId} amount={total} />
+
+        {installments.length>0 && (
+          <div className="space-y-1">
+            <div className="text-sm font-medium flex items-center gap-2"><CreditCard className="w-4 h-4"/> ผ่อนชำระ</div>
+            {installments.map(i => (
+              <div key={i.plan.id} className={`flex justify-between gap-2 rounded-xl px-3 py-2 text-sm ${i.eligible ? "bg-muted/30" : "bg-muted/10 text-muted-foreground"}`}>
+                <div>{i.plan.name} <span className="text-xs text-muted-foreground">{planTerms(i.plan)}</span></div>
+                {i.eligible ? (
+                  <div className="text-right">
+                    <span className="font-medium">{baht(i.monthly)}</span> × {i.plan.months} เดือน • รวม {baht(i.payable)}
+                    {i.last !== i.monthly && <span className="text-xs text-muted-foreground"> (งวดสุดท้าย {baht(i.last)})</span>}
+                    {pricing.showCost && i.plan.absorbedBy==="shop" && <div className="text-xs text-muted-foreground">ร้านรับภาระ {baht(i.charge)} • รับสุทธิ {baht(i.shopReceives)}</div>}
+                  </div>
+                ) : <div>ยอดขั้นต่ำ {baht(i.plan.minAmount)}</div>}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Button variant="secondary" onClick={()=>setShowAll(s=>!s)}>{showAll? "ซ่อนหมวดที่ไม่ได้เลือก" : "แสดงหมวดที่ไม่ได้เลือก"}</Button>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="destructive" onClick={onReset} disabled={!!soldAt} className={soldAt ? "opacity-50 cursor-not-allowed" : ""}><Trash2 className="w-4 h-4 mr-2"/> รีเซ็ตสเปค</Button>
+            <Button variant="secondary" onClick={handleCopy}><Download className="w-4 h-4 mr-2"/> คัดลอกสรุป</Button>
+            <Button variant="secondary" onClick={onShare} title="ลิงก์ดูสเปคแบบอ่านอย่างเดียวสำหรับลูกค้า ไม่มีต้นทุน/กำไร"><Link2 className="w-4 h-4 mr-2"/> แชร์ลิงก์</Button>
+            <Button onClick={handlePrint}><Download className="w-4 h-4 mr-2"/> พิมพ์/บันทึก PDF</Button>
+            <Button onClick={onQuote}><FileText className="w-4 h-4 mr-2"/> ใบเสนอราคา</Button>
+            <Button onClick={onInvoice}><Receipt className="w-4 h-4 mr-2"/> ใบกำกับภาษี</Button>
+            <Button onClick={handleCloseSale} disabled={!!soldAt} className={soldAt ? "opacity-50 cursor-not-allowed" : ""}><Receipt className="w-4 h-4 mr-2"/> ปิดการขาย</Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// ===== Shop settings =====
+type ShopSettings = {
+  name: string;
+  branch: string;
+  address: string;
+  phone: string;
+  taxId: string;
+  logo: string; // data URL, kept small because it lives in localStorage
+  quotePrefix: string;
+  invoicePrefix: string;
+  quoteValidDays: number;
+  quoteTerms: string;
+  signer: string;
+  promptPayId: string; // phone number, tax ID or e-wallet id; blank = no QR on documents
+};
+const DEFAULT_SHOP: ShopSettings = {
+  name: "อุบลคอมพิวเตอร์", branch: "สำนักงานใหญ่", address: "", phone: "", taxId: "", logo: "",
+  quotePrefix: "QT", invoicePrefix: "INV", quoteValidDays: 30, quoteTerms: "ราคานี้รวมค่าประกอบและติดตั้งระบบปฏิบัติการ", signer: "", promptPayId: "",
+};
+const LOGO_MAX_BYTES = 200_000;
+
+// Running numbers restart every (Buddhist) year: QT2569-0001, QT2569-0002, …
+type DocCounters = Record<string, { year: number; seq: number }>;
+const thaiYear = (ts: number) => new Date(ts).getFullYear() + 543;
+function nextDocNo(counters: DocCounters, kind: string, prefix: string, at: number): { no: string; counters: DocCounters } {
+  const year = thaiYear(at);
+  const seq = counters[kind]?.year === year ? counters[kind].seq + 1 : 1;
+  return { no: `${prefix}${year}-${String(seq).padStart(4, "0")}`, counters: { ...counters, [kind]: { year, seq } } };
+}
+
+// ===== Thai baht text =====
+const THAI_DIGITS = ["ศูนย์","หนึ่ง","สอง","สาม","สี่","ห้า","หก","เจ็ด","แปด","เก้า"];
+const THAI_PLACES = ["","สิบ","ร้อย","พัน","หมื่น","แสน"];
+// Below one million; `trailing` marks a group after "ล้าน", where a lone 1 is still read "เอ็ด"
+function readThaiGroup(n: number, trailing: boolean): string {
+  const digits = String(n).split("").map(Number);
+  return digits.map((d, i) => {
+    const place = digits.length - 1 - i;
+    if (!d) return "";
+    if (place === 1) return d === 1 ? "สิบ" : d === 2 ? "ยี่สิบ" : THAI_DIGITS[d] + "สิบ";
+    if (place === 0) return d === 1 && (n > 9 || trailing) ? "เอ็ด" : THAI_DIGITS[d];
+    return THAI_DIGITS[d] + THAI_PLACES[place];
+  }).join("");
+}
+function readThaiNumber(n: number, trailing = false): string {
+  if (n < 1_000_000) return readThaiGroup(n, trailing);
+  const rest = n % 1_000_000;
+  return readThaiNumber(Math.floor(n / 1_000_000), trailing) + "ล้าน" + (rest ? readThaiGroup(rest, true) : "");
+}
+// Same wording as Excel's BAHTTEXT: 1,250.50 → "หนึ่งพันสองร้อยห้าสิบบาทห้าสิบสตางค์"
+function bahtText(amount: number): string {
+  const satangTotal = Math.round(Math.abs(amount) * 100);
+  const bahtPart = Math.floor(satangTotal / 100), satang = satangTotal % 100;
+  if (!bahtPart && !satang) return "ศูนย์บาทถ้วน";
+  const text = (bahtPart ? readThaiNumber(bahtPart) + "บาท" : "") + (satang ? readThaiNumber(satang) + "สตางค์" : "ถ้วน");
+  return (amount < 0 ? "ลบ" : "") + text;
+}
+
+// ===== Quotation =====
+type QuoteCustomer = { name: string; address: string; taxId: string; phone: string };
+// The build and pricing are copied at issue time so a reprint shows exactly what the customer was quoted
+type Quotation = { no: string; issuedAt: number; validDays: number; customer: QuoteCustomer; build: BuildState; pricing: Pricing; tier?: PriceTier; promotions?: AppliedPromotion[]; plans?: PaymentPlan[] };
+
+const escapeHtml = (s: string) => s.replace(/[&<>"']/g, c => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[c]!));
+const thaiDate = (ts: number) => new Date(ts).toLocaleDateString("th-TH", { dateStyle: "long" });
+const money = (n: number) => n.toLocaleString("th-TH", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+function openPrintWindow(html: string) {
+  const w = window.open("", "_blank"); if (!w) { toast.error("เบราว์เซอร์บล็อกหน้าต่างพิมพ์"); return; }
+  w.document.write(html); w.document.close(); w.print();
+}
+
+const DOC_STYLE = `body{font-family: "Sarabun", ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto; padding:32px; color:#0f172a; font-size:14px}
+  .head{display:flex; justify-content:space-between; gap:24px; align-items:flex-start} .shop{display:flex; gap:12px} .shop img{max-height:72px; max-width:160px}
+  .title{text-align:right} .title h1{font-size:22px; margin:0 0 4px} .muted{color:#64748b} .box{border:1px solid #cbd5e1; border-radius:8px; padding:10px 12px; margin:16px 0}
+  table{width:100%; border-collapse:collapse; margin-top:8px} td,th{border:1px solid #cbd5e1; padding:6px 8px; vertical-align:top} th{background:#f1f5f9} .r{text-align:right} .c{text-align:center}
+  .sum td{border:none; padding:3px 8px} .words{background:#f8fafc; font-weight:600} .sign{display:flex; justify-content:space-between; margin-top:56px; gap:48px} .sign div{flex:1; text-align:center}
+  .line{border-top:1px dotted #0f172a; margin:40px 24px 6px}`;
+const shopHeaderHtml = (shop: ShopSettings) => `<div class="shop">${shop.logo ? `<img src="${shop.logo}" alt="">` : ""}<div>
+  <div style="font-size:18px; font-weight:700">${escapeHtml(shop.name)}${shop.branch ? ` <span class="muted" style="font-size:13px; font-weight:400">(${escapeHtml(shop.branch)})</span>` : ""}</div>
+  ${shop.address ? `<div>${escapeHtml(shop.address).replace(/\n/g, "<br>")}</div>` : ""}
+  ${shop.phone ? `<div>โทร ${escapeHtml(shop.phone)}</div>` : ""}
+  ${shop.taxId ? `<div>เลขประจำตัวผู้เสียภาษี ${escapeHtml(shop.taxId)}</div>` : ""}
+</div></div>`;
+const promptPayHtml = (shop: ShopSettings, amount: number) => !promptPayTarget(shop.promptPayId) || amount <= 0 ? "" :
+  `<div class="box" style="display:flex; gap:16px; align-items:center; page-break-inside:avoid">${qrSvg(promptPayPayload(shop.promptPayId, amount), 140)}
+    <div><b>ชำระผ่านพร้อมเพย์ (PromptPay)</b><div>ยอดชำระ ${money(amount)} บาท</div><div class="muted">บัญชีพร้อมเพย์ ${escapeHtml(shop.promptPayId)} • ${escapeHtml(shop.name)}</div></div></div>`;
+const customerHtml = (c: QuoteCustomer) => `<div><b>ลูกค้า:</b> ${escapeHtml(c.name || "-")}</div>
+  ${c.address ? `<div><b>ที่อยู่:</b> ${escapeHtml(c.address).replace(/\n/g, "<br>")}</div>` : ""}
+  ${c.taxId ? `<div><b>เลขประจำตัวผู้เสียภาษี:</b> ${escapeHtml(c.taxId)}</div>` : ""}
+  ${c.phone ? `<div><b>โทร:</b> ${escapeHtml(c.phone)}</div>` : ""}`;
+function docLines(build: BuildState) {
+  return [...baseEntries(build.base).map(e => ({ category: e.cat, product: e.product, qty: e.qty })), ...build.addons.map(a => ({ category: a.product.category, product: a.product, qty: a.qty }))];
+}
+// Inclusive prices already contain the VAT, so the quote shows the pre-VAT value and the VAT inside it
+const vatRowsHtml = (pricing: Pricing, t: Totals) => !pricing.vatEnabled ? "" : pricing.vatMode === "inclusive"
+  ? `<tr><td>มูลค่าก่อนภาษี</td><td class="r">${money(t.netBeforeVAT)}</td></tr><tr><td>ภาษีมูลค่าเพิ่ม ${pricing.vatPercent}% (รวมในราคาแล้ว)</td><td class="r">${money(t.vat)}</td></tr>`
+  : `<tr><td>ภาษีมูลค่าเพิ่ม ${pricing.vatPercent}%</td><td class="r">${money(t.vat)}</td></tr>`;
+const promoRowsHtml = (promos: AppliedPromotion[] = []) =>
+  promos.map(p => `<tr><td>โปรโมชัน: ${escapeHtml(p.name)}</td><td class="r">-${money(p.amount)}</td></tr>`).join("");
+const lineRowsHtml = (build: BuildState, tier?: PriceTier) => docLines(build).map((l, i) =>
+  `<tr><td class="c">${i + 1}</td><td>${escapeHtml(l.category)}: ${escapeHtml(l.product.name)}</td><td class="c">${l.qty}</td><td class="r">${money(tierPrice(l.product, tier))}</td><td class="r">${money(tierPrice(l.product, tier) * l.qty)}</td></tr>`).join("");
+
+function quotationHtml(q: Quotation, shop: ShopSettings): string {
+  const t = calcTotals(q.build, q.pricing, q.tier, q.promotions);
+  const validUntil = q.issuedAt + q.validDays * 86_400_000;
+  return `<html><head><title>ใบเสนอราคา ${escapeHtml(q.no)}</title><style>${DOC_STYLE}</style></head><body>
+    <div class="head">${shopHeaderHtml(shop)}
+      <div class="title"><h1>ใบเสนอราคา</h1><div class="muted">QUOTATION</div>
+        <div style="margin-top:8px">เลขที่ <b>${escapeHtml(q.no)}</b></div>
+        <div>วันที่ ${thaiDate(q.issuedAt)}</div>
+        <div>ยืนราคาถึง ${thaiDate(validUntil)} (${q.validDays} วัน)</div></div></div>
+    <div class="box">${customerHtml(q.customer)}</div>
+    <table>
+      <thead><tr><th style="width:40px">ลำดับ</th><th>รายการ</th><th style="width:60px">จำนวน</th><th style="width:110px">ราคา/หน่วย</th><th style="width:120px">จำนวนเงิน</th></tr></thead>
+      <tbody>${lineRowsHtml(q.build, q.tier)}</tbody>
+    </table>
+    <table class="sum" style="width:50%; margin-left:auto">
+      <tr><td>รวมเป็นเงิน</td><td class="r">${money(t.subtotal)}</td></tr>
+      ${promoRowsHtml(q.promotions)}
+      ${t.discount ? `<tr><td>ส่วนลด${q.pricing.discountType === "percent" ? ` ${q.pricing.discountValue}%` : ""}</td><td class="r">-${money(t.discount)}</td></tr><tr><td>ยอดหลังหักส่วนลด</td><td class="r">${money(t.afterDiscount)}</td></tr>` : ""}
+      ${vatRowsHtml(q.pricing, t)}
+      <tr><td><b>จำนวนเงินรวมทั้งสิ้น</b></td><td class="r"><b>${money(t.total)}</b></td></tr>
+    </table>
+    <div class="box words">(${bahtText(t.total)})</div>
+    ${promptPayHtml(shop, t.total)}
+    ${installmentRowsHtml(t.total, q.plans || [], money)}
+    ${shop.quoteTerms ? `<div><b>เงื่อนไข / หมายเหตุ:</b> ${escapeHtml(shop.quoteTerms).replace(/\n/g, "<br>")}</div>` : ""}
+    <div class="sign">
+      <div><div class="line"></div>ผู้เสนอราคา${shop.signer ? `<br>(${escapeHtml(shop.signer)})` : ""}<br>วันที่ ${thaiDate(q.issuedAt)}</div>
+      <div><div class="line"></div>ผู้อนุมัติสั่งซื้อ<br>(${escapeHtml(q.customer.name || "..............................")})<br>วันที่ ........../........../..........</div>
+    </div>
+  </body></html>`;
+}
+
+// Issuing allocates the next number and freezes the current build; an issued quote can be reprinted as-is
+function QuotationDialog({ saved, shop, onIssue, onClose }:{ saved: SavedBuild; shop: ShopSettings; onIssue: (customer: QuoteCustomer, validDays: number) => void; onClose: ()=>void }){
+  const last = saved.quotation;
+  const [customer, setCustomer] = useState<QuoteCustomer>(last?.customer || { name: saved.customer, address: "", taxId: "", phone: "" });
+  const [validDays, setValidDays] = useState(last?.validDays ?? shop.quoteValidDays);
+  const set = (k: keyof QuoteCustomer) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setCustomer({ ...customer, [k]: e.target.value });
+  const empty = !baseEntries(saved.build.base).length && !saved.build.addons.length;
+  return (
+    <div className="space-y-3">
+      {last && (
+        <div className="rounded-xl px-3 py-2 bg-sky-50 text-sky-800 flex items-center justify-between gap-2">
+          <span>ออกใบเสนอราคาแล้ว เลขที่ <b>{last.no}</b> เมื่อ {dateTime(last.issuedAt)}</span>
+          <Button variant="secondary" onClick={()=>openPrintWindow(quotationHtml(last, shop))}><Download className="w-4 h-4 mr-2"/> พิมพ์ซ้ำ</Button>
+        </div>
+      )}
+      {!shop.taxId && <div className="rounded-xl px-3 py-2 bg-amber-50 text-amber-700 text-sm">ยังไม่ได้ตั้งค่าข้อมูลร้าน (เลขผู้เสียภาษี/ที่อยู่) — ตั้งค่าได้ที่แท็บตั้งค่าร้าน</div>}
+      <div className="grid md:grid-cols-2 gap-3">
+        <div><Label>ชื่อลูกค้า / บริษัท</Label><Input value={customer.name} onChange={set("name")} /></div>
+        <div><Label>โทร</Label><Input value={customer.phone} onChange={set("phone")} /></div>
+        <div className="md:col-span-2"><Label>ที่อยู่</Label><textarea className="w-full border rounded-xl px-3 py-2 text-sm" rows={2} value={customer.address} onChange={set("address")} /></div>
+        <div><Label>เลขประจำตัวผู้เสียภาษี</Label><Input value={customer.taxId} onChange={set("taxId")} /></div>
+        <div><Label>ยืนราคา (วัน)</Label><Input type="number" min={1} value={validDays} onChange={e=>setValidDays(Math.max(1, Number(e.target.value||0)))} /></div>
+      </div>
+      <DialogFooter>
+        <Button variant="secondary" onClick={onClose}>ปิด</Button>
+        <Button onClick={()=>onIssue(customer, validDays)} disabled={empty} className={empty ? "opacity-50 cursor-not-allowed" : ""}><Receipt className="w-4 h-4 mr-2"/> {last ? "ออกเลขใหม่ตามสเปคปัจจุบัน" : "ออกใบเสนอราคา"}</Button>
+      </DialogFooter>
+    </div>
+  );
+}
+
+function ShopSettingsEditor({ shop, setShop, counters }:{ shop: ShopSettings; setShop: (s: ShopSettings)=>void; counters: DocCounters }){
+  const set = (k: keyof ShopSettings) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setShop({ ...shop, [k]: e.target.value });
+  const logoRef = useRef<HTMLInputElement>(null);
+  const readLogo = (file: File) => {
+    if (file.size > LOGO_MAX_BYTES) { toast.error(`ไฟล์โลโก้ใหญ่เกินไป (สูงสุด ${Math.round(LOGO_MAX_BYTES/1000)} KB)`); return; }
+    const reader = new FileReader();
+    reader.onload = () => { setShop({ ...shop, logo: String(reader.result) }); toast.success("อัปโหลดโลโก้แล้ว"); };
+    reader.readAsDataURL(file);
+  };
+  const latestNo = (kind: string, prefix: string) => counters[kind] ? `${prefix}${counters[kind].year}-${String(counters[kind].seq).padStart(4, "0")}` : "ยังไม่เคยออก";
+  return (
+    <Card className="shadow-sm">
+      <CardHeader><CardTitle className="flex items-center gap-2"><Store className="w-5 h-5"/> ตั้งค่าร้าน (ใช้บนเอกสาร)</CardTitle></CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid md:grid-cols-2 gap-3">
+          <div><Label>ชื่อร้าน / บริษัท</Label><Input value={shop.name} onChange={set("name")} /></div>
+          <div><Label>สาขา</Label><Input value={shop.branch} onChange={set("branch")} placeholder="สำนักงานใหญ่" /></div>
+          <div className="md:col-span-2"><Label>ที่อยู่</Label><textarea className="w-full border rounded-xl px-3 py-2 text-sm" rows={2} value={shop.address} onChange={set("address")} /></div>
+          <div><Label>โทร</Label><Input value={shop.phone} onChange={set("phone")} /></div>
+          <div><Label>เลขประจำตัวผู้เสียภาษี</Label><Input value={shop.taxId} onChange={set("taxId")} placeholder="13 หลัก" /></div>
+          <div><Label>ชื่อผู้เสนอราคา (ลงนาม)</Label><Input value={shop.signer} onChange={set("signer")} /></div>
+          <div>
+            <Label>พร้อมเพย์ (เบอร์โทร / เลขผู้เสียภาษี)</Label>
+            <Input value={shop.promptPayId} onChange={set("promptPayId")} placeholder="ว่าง = ไม่แสดง QR" />
+            {shop.promptPayId && !promptPayTarget(shop.promptPayId) && <div className="text-xs text-red-600 mt-1">ต้องเป็นเบอร์มือถือ 10 หลัก, เลข 13 หลัก หรือ e-Wallet 15 หลัก</div>}
+          </div>
+          <div className="space-y-1">
+            <Label>โลโก้</Label>
+            <div className="flex items-center gap-2">
+              {shop.logo && <img src={shop.logo} alt="" className="h-10 max-w-[120px] object-contain border rounded" />}
+              <input ref={logoRef} type="file" accept="image/*" className="hidden" onChange={(e)=>{ const f=e.target.files?.[0]; if(f) readLogo(f); e.target.value=""; }}/>
+              <Button variant="secondary" onClick={()=>logoRef.current?.click()}><FileUp className="w-4 h-4 mr-2"/> เลือกรูป</Button>
+              {shop.logo && <Button variant="secondary" onClick={()=>setShop({ ...shop, logo: "" })}><Trash2 className="w-4 h-4"/></Button>}
+            </div>
+          </div>
+        </div>
+        <div className="grid md:grid-cols-3 gap-3 pt-2 border-t">
+          <div><Label>คำนำหน้าเลขที่ใบเสนอราคา</Label><Input value={shop.quotePrefix} onChange={set("quotePrefix")} /></div>
+          <div><Label>ยืนราคา (วัน)</Label><Input type="number" min={1} value={shop.quoteValidDays} onChange={e=>setShop({ ...shop, quoteValidDays: Math.max(1, Number(e.target.value||0)) })} /></div>
+          <div className="text-sm text-muted-foreground self-end pb-2">เลขล่าสุด: {latestNo("quotation", shop.quotePrefix)}</div>
+          <div><Label>คำนำหน้าเลขที่ใบกำกับภาษี</Label><Input value={shop.invoicePrefix} onChange={set("invoicePrefix")} /></div>
+          <div className="md:col-span-2 text-sm text-muted-foreground self-end pb-2">เลขล่าสุด: {latestNo("invoice", shop.invoicePrefix)} — เลขเรียงต่อเนื่อง เริ่มใหม่ทุกปี</div>
+          <div className="md:col-span-3"><Label>เงื่อนไข / หมายเหตุท้ายใบเสนอราคา</Label><textarea className="w-full border rounded-xl px-3 py-2 text-sm" rows={2} value={shop.quoteTerms} onChange={set("quoteTerms")} /></div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// ===== Tax invoice / receipt =====
+// Numbers are allocated only when a document is issued and documents are never deleted, so the yearly
+// sequence has no gaps; a voided document keeps its number and stays in the list marked as void.
+type TaxDocument = {
+  id: string;
+  no: string;
+  issuedAt: number;
+  buildId: string;
+  buildName: string;
+  customer: QuoteCustomer;
+  build: BuildState;
+  pricing: Pricing;
+  tier?: PriceTier;
+  promotions?: AppliedPromotion[];
+  voidedAt?: number;
+  voidReason?: string;
+};
+type DocCopy = "original" | "copy";
+const taxDocTitle = (d: TaxDocument) => d.pricing.vatEnabled ? "ใบกำกับภาษี / ใบเสร็จรับเงิน" : "ใบเสร็จรับเงิน";
+const DOC_COPY_LABEL: Record<DocCopy, string> = { original: "ต้นฉบับ (ORIGINAL)", copy: "สำเนา (COPY)" };
+
+// One page per copy marker; issuing prints original + copy, reprints are copies only
+function taxDocumentHtml(d: TaxDocument, shop: ShopSettings, copies: DocCopy[]): string {
+  const t = calcTotals(d.build, d.pricing, d.tier, d.promotions);
+  const page = (copy: DocCopy) => `<section style="position:relative; page-break-after:always">
+    ${d.voidedAt ? `<div style="position:absolute; top:35%; left:0; right:0; text-align:center; font-size:96px; color:rgba(220,38,38,.18); transform:rotate(-20deg)">ยกเลิก</div>` : ""}
+    <div class="head">${shopHeaderHtml(shop)}
+      <div class="title"><div style="display:inline-block; border:1px solid #0f172a; border-radius:6px; padding:2px 8px; margin-bottom:6px">${DOC_COPY_LABEL[copy]}</div>
+        <h1>${taxDocTitle(d)}</h1><div class="muted">${d.pricing.vatEnabled ? "TAX INVOICE / RECEIPT" : "RECEIPT"}</div>
+        <div style="margin-top:8px">เลขที่ <b>${escapeHtml(d.no)}</b></div>
+        <div>วันที่ ${thaiDate(d.issuedAt)}</div></div></div>
+    <div class="box">${customerHtml(d.customer)}</div>
+    <table>
+      <thead><tr><th style="width:40px">ลำดับ</th><th>รายการ</th><th style="width:60px">จำนวน</th><th style="width:110px">ราคา/หน่วย</th><th style="width:120px">จำนวนเงิน</th></tr></thead>
+      <tbody>${lineRowsHtml(d.build, d.tier)}</tbody>
+    </table>
+    <table class="sum" style="width:50%; margin-left:auto">
+      <tr><td>รวมเป็นเงิน</td><td class="r">${money(t.subtotal)}</td></tr>
+      ${promoRowsHtml(d.promotions)}
+      ${t.discount ? `<tr><td>ส่วนลด${d.pricing.discountType === "percent" ? ` ${d.pricing.discountValue}%` : ""}</td><td class="r">-${money(t.discount)}</td></tr>` : ""}
+      ${d.pricing.vatEnabled ? `<tr><td>มูลค่าสินค้าก่อนภาษี</td><td class="r">${money(t.netBeforeVAT)}</td></tr><tr><td>ภาษีมูลค่าเพิ่ม ${d.pricing.vatPercent}%${d.pricing.vatMode === "inclusive" ? " (รวมในราคาแล้ว)" : ""}</td><td class="r">${money(t.vat)}</td></tr>` : ""}
+      <tr><td><b>จำนวนเงินรวมทั้งสิ้น</b></td><td class="r"><b>${money(t.total)}</b></td></tr>
+    </table>
+    <div class="box words">(${bahtText(t.total)})</div>
+    ${d.voidedAt ? "" : promptPayHtml(shop, t.total)}
+    ${d.voidedAt ? `<div style="color:#b91c1c">ยกเลิกเมื่อ ${thaiDate(d.voidedAt)}${d.voidReason ? ` — ${escapeHtml(d.voidReason)}` : ""}</div>` : ""}
+    <div class="sign">
+      <div><div class="line"></div>ผู้รับเงิน${shop.signer ? `<br>(${escapeHtml(shop.signer)})` : ""}</div>
+      <div><div class="line"></div>ผู้รับสินค้า<br>(${escapeHtml(d.customer.name || "..............................")})</div>
+    </div>
+  </section>`;
+  return `<html><head><title>${taxDocTitle(d)} ${escapeHtml(d.no)}</title><style>${DOC_STYLE} section:last-child{page-break-after:auto}</style></head><body>${copies.map(page).join("")}</body></html>`;
+}
+
+function TaxInvoiceDialog({ saved, existing, shop, onIssue, onClose }:{ saved: SavedBuild; existing?: TaxDocument; shop: ShopSettings; onIssue: (customer: QuoteCustomer) => void; onClose: ()=>void }){
+  const [customer, setCustomer] = useState<QuoteCustomer>(saved.quotation?.customer || { name: saved.customer, address: "", taxId: "", phone: "" });
+  const set = (k: keyof QuoteCustomer) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setCustomer({ ...customer, [k]: e.target.value });
+  const empty = !baseEntries(saved.build.base).length && !saved.build.addons.length;
+  const blocked = empty || !saved.saleId;
+  if (existing) return (
+    <div className="space-y-3">
+      <div className="rounded-xl px-3 py-2 bg-sky-50 text-sky-800">สเปคนี้ออก{taxDocTitle(existing)}แล้ว เลขที่ <b>{existing.no}</b> เมื่อ {dateTime(existing.issuedAt)} — หากต้องการแก้ไขให้ยกเลิกเอกสารเดิมก่อน</div>
+      <DialogFooter>
+        <Button variant="secondary" onClick={onClose}>ปิด</Button>
+        <Button onClick={()=>openPrintWindow(taxDocumentHtml(existing, shop, ["copy"]))}><Download className="w-4 h-4 mr-2"/> พิมพ์สำเนา</Button>
+      </DialogFooter>
+    </div>
+  );
+  return (
+    <div className="space-y-3">
+      {!saved.saleId && <div className="rounded-xl px-3 py-2 bg-amber-50 text-amber-700 text-sm">สเปคนี้ยังไม่ได้ปิดการขาย — ต้องปิดการขายก่อน เอกสารจะออกตามรายการที่บันทึกไว้ในการขาย</div>}
+      {(!shop.taxId || !shop.address) && <div className="rounded-xl px-3 py-2 bg-amber-50 text-amber-700 text-sm">ใบกำกับภาษีต้องมีที่อยู่และเลขผู้เสียภาษีของร้าน — ตั้งค่าได้ที่แท็บตั้งค่าร้าน</div>}
+      <div className="grid md:grid-cols-2 gap-3">
+        <div><Label>ชื่อลูกค้า / บริษัท</Label><Input value={customer.name} onChange={set("name")} /></div>
+        <div><Label>โทร</Label><Input value={customer.phone} onChange={set("phone")} /></div>
+        <div className="md:col-span-2"><Label>ที่อยู่</Label><textarea className="w-full border rounded-xl px-3 py-2 text-sm" rows={2} value={customer.address} onChange={set("address")} /></div>
+        <div><Label>เลขประจำตัวผู้เสียภาษี</Label><Input value={customer.taxId} onChange={set("taxId")} /></div>
+      </div>
+      <DialogFooter>
+        <Button variant="secondary" onClick={onClose}>ปิด</Button>
+        <Button onClick={()=>onIssue(customer)} disabled={blocked} className={blocked ? "opacity-50 cursor-not-allowed" : ""}><Receipt className="w-4 h-4 mr-2"/> ออกเอกสารและพิมพ์</Button>
+      </DialogFooter>
+    </div>
+  );
+}
+
+function TaxDocumentList({ documents, shop, onVoid }:{ documents: TaxDocument[]; shop: ShopSettings; onVoid: (id: string, reason: string)=>void }){
+  const voidDoc = (d: TaxDocument) => {
+    const reason = window.prompt(`ยกเลิกเอกสาร ${d.no}? ระบุเหตุผล (เลขที่เอกสารจะไม่ถูกนำกลับมาใช้)`);
+    if (reason === null) return;
+    onVoid(d.id, reason.trim());
+  };
+  return (
+    <Card className="shadow-sm">
+      <CardHeader><CardTitle className="flex items-center gap-2"><FileText className="w-5 h-5"/> ใบกำกับภาษี / ใบเสร็จที่ออกแล้ว</CardTitle></CardHeader>
+      <CardContent>
+        <div className="border rounded-2xl overflow-hidden">
+          <div className="grid grid-cols-12 bg-muted/50 px-4 py-2 text-sm font-semibold">
+            <div className="col-span-2">เลขที่</div><div className="col-span-2">วันที่</div><div className="col-span-3">ลูกค้า / สเปค</div><div className="col-span-2 text-right">ยอดรวม</div><div className="col-span-3 text-right">จัดการ</div>
+          </div>
+          <div className="max-h-[360px] overflow-auto">
+            {documents.length===0 && <div className="px-4 py-3 text-muted-foreground">ยังไม่มีเอกสาร</div>}
+            {documents.map(d => (
+              <div key={d.id} className={`grid grid-cols-12 items-center px-4 py-2 border-t text-sm ${d.voidedAt ? "text-muted-foreground" : ""}`}>
+                <div className="col-span-2 font-mono">{d.no}{d.voidedAt && <span className="ml-1 px-1.5 rounded bg-red-100 text-red-700 text-xs font-sans">ยกเลิก</span>}</div>
+                <div className="col-span-2">{dateTime(d.issuedAt)}</div>
+                <div className="col-span-3 truncate" title={d.voidReason ? `เหตุผลที่ยกเลิก: ${d.voidReason}` : d.buildName}>{d.customer.name || "-"} <span className="text-muted-foreground">— {d.buildName}</span></div>
+                <div className={`col-span-2 text-right ${d.voidedAt ? "line-through" : ""}`}>{baht(calcTotals(d.build, d.pricing, d.tier, d.promotions).total)}</div>
+                <div className="col-span-3 flex justify-end gap-2">
+                  <Button variant="secondary" className="h-8" onClick={()=>openPrintWindow(taxDocumentHtml(d, shop, ["copy"]))}>พิมพ์ซ้ำ</Button>
+                  {!d.voidedAt && <Button variant="destructive" className="h-8" onClick={()=>voidDoc(d)}>ยกเลิก</Button>}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// ===== Snapshot drift =====
+// Builds keep full Product copies, so price/attribute edits in the inventory do not reach them automatically
+type DriftSlot = { kind: "base"; cat: BaseCategory; id: string } | { kind: "addon"; id: string };
+type FieldChange = { field: string; from: any; to: any };
+type BuildDrift = { key: string; slot: DriftSlot; before: Product; after?: Product; changes: FieldChange[]; removed: boolean; outOfStock: boolean; fromLink?: boolean };
+
+const fieldLabel: Record<string, string> = { name: "ชื่อ", category: "หมวดหมู่", price: "ราคา", memberPrice: "ราคาสมาชิก", dealerPrice: "ราคาดีลเลอร์", cost: "ต้นทุน", stock: "สต็อก", sku: "SKU", barcode: "บาร์โค้ด", supplier: "ผู้จำหน่าย", reorderPoint: "จุดสั่งซื้อ", reorderTarget: "ระดับเป้าหมาย" };
+const MONEY_FIELDS = ["price","memberPrice","dealerPrice","cost"];
+const showValue = (field: string, v: any) => v===undefined || v==="" ? "-" : MONEY_FIELDS.includes(field) && typeof v==="number" ? baht(v) : Array.isArray(v) ? v.join(", ") : String(v);
+
+function diffProducts(before: Product, after: Product, fields: readonly Exclude<keyof Product, "id"|"attributes">[] = ["name","price","memberPrice","dealerPrice","cost"]): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const f of fields) if (before[f] !== after[f]) changes.push({ field: f, from: before[f], to: after[f] });
+  const keys = new Set([...Object.keys(before.attributes||{}), ...Object.keys(after.attributes||{})]);
+  for (const k of keys) {
+    const a = before.attributes?.[k], b = after.attributes?.[k];
+    if (JSON.stringify(a) !== JSON.stringify(b)) changes.push({ field: k, from: a, to: b });
+  }
+  return changes;
+}
+function detectBuildDrift(build: BuildState, inventory: Product[]): BuildDrift[] {
+  const byId = new Map(inventory.map(p => [p.id, p]));
+  const check = (key: string, slot: DriftSlot, before: Product, qty: number): BuildDrift | null => {
+    const live = byId.get(before.id);
+    // A product moved to another category can no longer sit in this slot
+    if (!live || live.category !== before.category) return { key, slot, before, changes: [], removed: true, outOfStock: false };
+    const changes = diffProducts(before, live);
+    const outOfStock = live.stock < qty;
+    return changes.length || outOfStock ? { key, slot, before, after: live, changes, removed: false, outOfStock } : null;
+  };
+  const out: BuildDrift[] = [];
+  for (const e of baseEntries(build.base)) { const d = check(`base:${e.id}`, { kind: "base", cat: e.cat, id: e.id }, e.product, e.qty); if (d) out.push(d); }
+  for (const a of build.addons) { const d = check(`addon:${a.id}`, { kind: "addon", id: a.id }, a.product, a.qty); if (d) out.push(d); }
+  return out;
+}
+// Imported share links use live prices; a line whose link showed another price is listed until staff acknowledge it
+function linkPriceDrift(build: BuildState, linkPrices: Record<string, number> = {}, tier?: PriceTier): BuildDrift[] {
+  const field = PRICE_TIERS.find(t => t.id === tier)?.field || "price";
+  const slots = [
+    ...baseEntries(build.base).map(e => ({ slot: { kind: "base", cat: e.cat, id: e.id } as DriftSlot, product: e.product })),
+    ...build.addons.map(a => ({ slot: { kind: "addon", id: a.id } as DriftSlot, product: a.product })),
+  ];
+  return slots.filter(x => x.slot.id in linkPrices).map(({ slot, product }) => {
+    const price = linkPrices[slot.id];
+    return { key: `link:${slot.id}`, slot, before: { ...product, [field]: price }, after: product, changes: [{ field, from: price, to: tierPrice(product, tier) }], removed: false, outOfStock: false, fromLink: true };
+  });
+}
+function applyDrift(build: BuildState, items: BuildDrift[]): BuildState {
+  let next: BuildState = { base: { ...build.base }, addons: [...build.addons] };
+  for (const d of items) {
+    if (d.fromLink || (!d.removed && !d.changes.length)) continue;
+    const id = d.slot.id;
+    if (d.slot.kind === "base") {
+      const entries = own(next.base, d.slot.cat) || [];
+      next.base[d.slot.cat] = d.removed ? entries.filter(e => e.id !== id) : entries.map(e => e.id === id ? { ...e, product: d.after! } : e);
+    }
+    else next.addons = d.removed ? next.addons.filter(a => a.id !== id) : next.addons.map(a => a.id === id ? { ...a, product: d.after! } : a);
+  }
+  return next;
+}
+
+function BuildDriftPanel({ drift, onAccept }:{ drift: BuildDrift[]; onAccept:(items: BuildDrift[])=>void }){
+  if (!drift.length) return null;
+  const actionable = drift.filter(d => d.removed || d.changes.length);
+  return (
+    <Card className="shadow-sm border-amber-300">
+      <CardHeader><CardTitle className="flex items-center gap-2 text-amber-700"><RefreshCw className="w-5 h-5"/> ข้อมูลในสเปคไม่ตรงกับคลังสินค้า</CardTitle></CardHeader>
+      <CardContent className="space-y-2">
+        {drift.map(d => (
+          <div key={d.key} className="flex items-start justify-between gap-3 rounded-xl px-3 py-2 bg-amber-50 text-sm">
+            <div className="space-y-0.5 min-w-0">
+              <div className="font-medium truncate" title={d.before.name}>{d.slot.kind==="base" ? d.slot.cat : d.before.category}: {d.before.name}</div>
+              {d.removed && <div className="text-red-700">สินค้าถูกลบหรือย้ายหมวดในคลังแล้ว</div>}
+              {d.fromLink && <div className="text-amber-800">ราคาในลิงก์ที่แชร์ไม่ตรงกับคลัง — สเปคใช้ราคาคลัง</div>}
+              {d.changes.map(c => (
+                <div key={c.field} className="text-amber-800">{fieldLabel[c.field] || c.field}: <span className="line-through opacity-70">{showValue(c.field, c.from)}</span> → <span className="font-medium">{showValue(c.field, c.to)}</span></div>
+              ))}
+              {d.outOfStock && <div className="text-red-700">สต็อกไม่พอ (เหลือ {d.after?.stock ?? 0})</div>}
+            </div>
+            {(d.removed || d.changes.length>0) && <Button variant="secondary" className="shrink-0" onClick={()=>onAccept([d])}>{d.removed ? "นำออกจากสเปค" : d.fromLink ? "รับทราบ" : "อัปเดต"}</Button>}
+          </div>
+        ))}
+        {actionable.length>1 && <div className="flex justify-end"><Button onClick={()=>onAccept(actionable)}><RefreshCw className="w-4 h-4 mr-2"/> อัปเดตทั้งหมด ({actionable.length})</Button></div>}
+      </CardContent>
+    </Card>
+  );
+}
+
+// ===== Inventory audit log =====
+// Append-only (apart from the oldest entries dropping off past AUDIT_LIMIT): undoing a change records a new entry that points back at it (undoOf) instead of rewriting history
+type AuditSource = "manual" | "import" | "sale" | "undo";
+type AuditAction = "create" | "update" | "delete";
+type AuditEntry = {
+  id: string;
+  at: number;
+  user: string;
+  source: AuditSource;
+  action: AuditAction;
+  productId: string;
+  productName: string;
+  changes: FieldChange[];
+  snapshot?: Product; // deleted products keep a full copy so they can be restored
+  note?: string;
+  undoOf?: string;
+};
+type AuditContext = Pick<AuditEntry, "user"|"source"|"note"|"undoOf">;
+
+const AUDIT_SOURCE: Record<AuditSource, { label: string; cls: string }> = {
+  manual: { label: "แก้ไขเอง", cls: "bg-slate-100 text-slate-700" },
+  import: { label: "นำเข้า", cls: "bg-sky-100 text-sky-800" },
+  sale: { label: "ขาย", cls: "bg-emerald-100 text-emerald-800" },
+  undo: { label: "ย้อนกลับ", cls: "bg-amber-100 text-amber-800" },
+};
+const AUDIT_ACTION: Record<AuditAction, string> = { create: "เพิ่ม", update: "แก้ไข", delete: "ลบ" };
+// Deletes carry a full product and imports touch the whole inventory, so only the newest entries are kept in storage
+const AUDIT_LIMIT = 2000;
+const pruneAudit = (entries: AuditEntry[]) => entries.length > AUDIT_LIMIT ? entries.slice(0, AUDIT_LIMIT) : entries;
+
+// One entry per product added, changed or removed between two inventory states
+function auditInventory(prev: Product[], next: Product[], ctx: AuditContext, at = Date.now()): AuditEntry[] {
+  const before = new Map(prev.map(p => [p.id, p]));
+  const kept = new Set(next.map(p => p.id));
+  const entry = (action: AuditAction, p: Product, changes: FieldChange[], snapshot?: Product): AuditEntry =>
+    ({ id: uid(), at, ...ctx, action, productId: p.id, productName: p.name, changes, ...(snapshot ? { snapshot } : {}) });
+  const out: AuditEntry[] = [];
+  for (const p of next) {
+    const old = before.get(p.id);
+    if (!old) { out.push(entry("create", p, diffProducts({ id: p.id, attributes: {} } as unknown as Product, p, IMPORT_FIELDS))); continue; }
+    const changes = diffProducts(old, p, IMPORT_FIELDS);
+    if (changes.length) out.push(entry("update", p, changes));
+  }
+  for (const p of prev) if (!kept.has(p.id)) out.push(entry("delete", p, [], p));
+  return out;
+}
+
+const auditUndone = (entries: AuditEntry[]) => new Set(entries.map(e => e.undoOf).filter((id): id is string => !!id));
+const fieldValue = (p: Product, field: string) => (IMPORT_FIELDS as readonly string[]).includes(field) ? (p as any)[field] : p.attributes?.[field];
+function withField(p: Product, field: string, v: any): Product {
+  if ((IMPORT_FIELDS as readonly string[]).includes(field)) return { ...p, [field]: v };
+  const attributes = { ...p.attributes };
+  if (v === undefined) delete attributes[field]; else attributes[field] = v;
+  return { ...p, attributes };
+}
+
+// Fields edited again after this change are left alone (skipped) rather than overwritten
+function undoAudit(inventory: Product[], entry: AuditEntry): { next: Product[]; skipped: FieldChange[] } | { error: string } {
+  const live = inventory.find(p => p.id === entry.productId);
+  if (entry.action === "delete") {
+    if (live) return { error: `${entry.productName} อยู่ในคลังแล้ว` };
+    if (!entry.snapshot) return { error: "ไม่มีข้อมูลสำหรับกู้คืน" };
+    const conflicts = codeConflicts(entry.snapshot, inventory);
+    if (conflicts.length) return { error: conflicts.join(", ") };
+    return { next: [entry.snapshot, ...inventory], skipped: [] };
+  }
+  if (!live) return { error: `${entry.productName} ถูกลบไปแล้ว — กู้คืนสินค้าก่อน` };
+  if (entry.action === "create") return { next: inventory.filter(p => p.id !== live.id), skipped: [] };
+  let reverted = live;
+  const skipped: FieldChange[] = [];
+  for (const c of entry.changes) {
+    if (JSON.stringify(fieldValue(live, c.field)) === JSON.stringify(c.to)) reverted = withField(reverted, c.field, c.from);
+    else skipped.push(c);
+  }
+  if (skipped.length === entry.changes.length) return { error: "ทุกฟิลด์ถูกแก้ไขภายหลังแล้ว" };
+  const conflicts = codeConflicts(reverted, inventory);
+  if (conflicts.length) return { error: conflicts.join(", ") };
+  return { next: inventory.map(p => p.id === live.id ? reverted : p), skipped };
+}
+
+// productId narrows the log to one product; without it the whole log shows, including deleted products
+function InventoryHistory({ entries, productId, onUndo }:{ entries: AuditEntry[]; productId?: string; onUndo: (e: AuditEntry) => void }){
+  const [deletedOnly, setDeletedOnly] = useState(false);
+  const [limit, setLimit] = useState(100);
+  const undone = useMemo(()=>auditUndone(entries), [entries]);
+  const shown = entries.filter(e => productId ? e.productId === productId : !deletedOnly || (e.action === "delete" && !undone.has(e.id)));
+  return (
+    <div className="space-y-3">
+      {!productId && <div className="flex gap-2"><Chip active={!deletedOnly} onClick={()=>setDeletedOnly(false)}>ทั้งหมด</Chip><Chip active={deletedOnly} onClick={()=>setDeletedOnly(true)}>สินค้าที่ถูกลบ</Chip></div>}
+      <div className="border rounded-2xl max-h-[480px] overflow-auto">
+        {shown.length===0 && <div className="px-4 py-3 text-sm text-muted-foreground">ยังไม่มีประวัติการเปลี่ยนแปลง</div>}
+        {shown.slice(0, limit).map(e => {
+          const done = undone.has(e.id);
+          return (
+            <div key={e.id} className="border-t first:border-t-0 px-4 py-2 text-sm flex items-start gap-3">
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs text-muted-foreground">{dateTime(e.at)}</span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs ${AUDIT_SOURCE[e.source].cls}`}>{AUDIT_SOURCE[e.source].label}</span>
+                  <span className="font-medium">{AUDIT_ACTION[e.action]} {e.productName}</span>
+                  <span className="text-xs text-muted-foreground">โดย {e.user || "ไม่ระบุ"}{e.note ? ` · ${e.note}` : ""}</span>
+                </div>
+                {e.action !== "delete" && e.changes.map(c => (
+                  <div key={c.field} className="text-xs">{fieldLabel[c.field] || c.field}: {e.action === "update" && <><span className="line-through opacity-70">{showValue(c.field, c.from)}</span> → </>}<span className="font-medium">{showValue(c.field, c.to)}</span></div>
+                ))}
+              </div>
+              {done
+                ? <span className="text-xs text-muted-foreground whitespace-nowrap">ย้อนกลับแล้ว</span>
+                : <Button variant="secondary" className="h-8 whitespace-nowrap" onClick={()=>onUndo(e)}><Undo2 className="w-4 h-4 mr-1"/> {e.action === "delete" ? "กู้คืน" : "ย้อนกลับ"}</Button>}
+            </div>
+          );
+        })}
+      </div>
+      {shown.length > limit && <Button variant="secondary" onClick={()=>setLimit(l => l + 100)}>แสดงเพิ่ม ({shown.length - limit})</Button>}
+    </div>
+  );
+}
+
+// ===== Sales =====
+type SaleLine = { productId: string; name: string; category: Category; qty: number; price: number; cost?: number };
+type SaleRecord = {
+  id: string;
+  buildId: string;
+  buildName: string;
+  customer: string;
+  soldAt: number;
+  lines: SaleLine[];
+  pricing: Pricing;
+  tier?: PriceTier;
+  promotions?: AppliedPromotion[];
+  subtotal: number;
+  discount: number;
+  vat: number;
+  total: number;
+  costTotal: number;
+  profit: number;
+};
+type StockIssue = { productId: string; msg: string };
+
+// One line per product — a product picked both as base part and add-on is counted once with the summed qty
+function saleLines(build: BuildState, tier?: PriceTier): SaleLine[] {
+  const lines = new Map<string, SaleLine>();
+  const add = (p: Product, qty: number) => {
+    const prev = lines.get(p.id);
+    if (prev) prev.qty += qty;
+    else lines.set(p.id, { productId: p.id, name: p.name, category: p.category, qty, price: tierPrice(p, tier), cost: p.cost });
+  };
+  for (const e of baseEntries(build.base)) add(e.product, e.qty);
+  for (const a of build.addons) add(a.product, a.qty);
+  return Array.from(lines.values());
+}
+// Turns the recorded lines back into a build for documents; each product carries the price it sold at
+function saleBuild(sale: SaleRecord, baseCategories: BaseCategory[]): BuildState {
+  const build: BuildState = { base: {}, addons: [] };
+  for (const l of sale.lines) {
+    const entry = { id: uid(), product: { id: l.productId, name: l.name, category: l.category, price: l.price, cost: l.cost, stock: 0, attributes: {} }, qty: l.qty };
+    if (baseCategories.includes(l.category)) build.base[l.category] = [...(own(build.base, l.category) || []), entry];
+    else build.addons.push(entry);
+  }
+  return build;
+}
+function checkSaleStock(lines: SaleLine[], inventory: Product[]): StockIssue[] {
+  const issues: StockIssue[] = [];
+  for (const l of lines) {
+    const live = inventory.find(p => p.id === l.productId);
+    if (!live) issues.push({ productId: l.productId, msg: `${l.name}: ไม่พบสินค้าในคลัง (อาจถูกลบไปแล้ว)` });
+    else if (live.stock < l.qty) issues.push({ productId: l.productId, msg: `${l.name}: ต้องการ ${l.qty} ชิ้น แต่เหลือในคลัง ${live.stock} ชิ้น` });
+  }
+  return issues;
+}
+
+function SalesHistory({ sales }:{ sales: SaleRecord[] }){
+  const [open, setOpen] = useState<string | null>(null);
+  return (
+    <Card className="shadow-sm">
+      <CardHeader><CardTitle className="flex items-center gap-2"><Receipt className="w-5 h-5"/> ประวัติการขาย</CardTitle></CardHeader>
+      <CardContent>
+        <div className="border rounded-2xl overflow-hidden">
+          <div className="grid grid-cols-12 bg-muted/50 px-4 py-2 text-sm font-semibold">
+            <div className="col-span-3">วันที่ขาย</div><div className="col-span-4">สเปค / ลูกค้า</div><div className="col-span-1 text-right">ชิ้น</div><div className="col-span-2 text-right">ยอดรวม</div><div className="col-span-2 text-right">กำไร</div>
           </div>
-          <div className="flex items-center gap-2">
-            <Label className="w-24">VAT</Label>
-            <Select value={pricing.vatEnabled ? "on" : "off"} onValueChange={(v)=>setPricing({ ...pricing, vatEnabled: v==="on" })}>
-              <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
-              <SelectContent><SelectItem value="on">เปิด</SelectItem><SelectItem value="off">ปิด</SelectItem></SelectContent>
-            </Select>
-            <Input type="number" className="w-24" value={pricing.vatPercent} onChange={e=>setPricing({ ...pricing, vatPercent: Number(e.target.value||0) })} />
-            <span className="text-sm text-muted-foreground">%</span>
-            <div className="ml-auto flex items-center gap-2">
-              <Button variant="secondary" onClick={()=>setPricing({ ...pricing, showCost: !pricing.showCost })}>{pricing.showCost ? "ซ่อนกำไร" : "แสดงกำไร"}</Button>
-            </div>
+          <div className="max-h-[360px] overflow-auto">
+            {sales.length===0 && <div className="px-4 py-3 text-muted-foreground">ยังไม่มีการขาย</div>}
+            {sales.map(sale=>(
+              <div key={sale.id} className="border-t text-sm">
+                <div className="grid grid-cols-12 items-center px-4 py-2 hover:bg-muted/30 cursor-pointer" onClick={()=>setOpen(o=>o===sale.id ? null : sale.id)}>
+                  <div className="col-span-3">{dateTime(sale.soldAt)}</div>
+                  <div className="col-span-4 truncate" title={sale.buildName}>{sale.buildName}{sale.customer ? <span className="text-muted-foreground"> — {sale.customer}</span> : null}</div>
+                  <div className="col-span-1 text-right">{sale.lines.reduce((s,l)=>s+l.qty,0)}</div>
+                  <div className="col-span-2 text-right">{baht(sale.total)}</div>
+                  <div className="col-span-2 text-right">{baht(sale.profit)}</div>
+                </div>
+                {open===sale.id && (
+                  <div className="px-6 pb-2 space-y-1 text-xs text-muted-foreground">
+                    {sale.lines.map(l => <div key={l.productId} className="flex justify-between"><span>{l.category}: {l.name} x{l.qty}</span><span>{baht(l.price*l.qty)}</span></div>)}
+                    {sale.promotions?.map(p => <div key={p.id} className="flex justify-between"><span>โปรโมชัน {p.name}</span><span>-{baht(p.amount)}</span></div>)}
+                    <div className="flex justify-between"><span>ส่วนลด</span><span>{baht(sale.discount)}</span></div>
+                    {sale.pricing.vatEnabled && <div className="flex justify-between"><span>{vatLabel(sale.pricing)}</span><span>{baht(sale.vat)}</span></div>}
+                  </div>
+                )}
+              </div>
+            ))}
           </div>
         </div>
+      </CardContent>
+    </Card>
+  );
+}
 
-        {/* Rows */}
-        <div className="space-y-2">
-          {(showAll ? baseAllRows : baseAllRows.filter(r => !!r.p)).map((r) => (
-            r.p ? (
-              <div key={r.p.id} className="flex justify-between bg-muted/30 rounded-xl px-3 py-2"><div className="font-medium">{r.c}: <span className="font-normal">{r.p.name}</span></div><div>{baht(r.p.price)}</div></div>
-            ) : (
-              <div key={String(r.c)} className="flex justify-between bg-muted/10 rounded-xl px-3 py-2 text-muted-foreground"><div className="font-medium">{r.c}: <span className="font-normal">— ไม่เลือก —</span></div><div>-</div></div>
-            )
-          ))}
+// ===== Stock levels / reorder =====
+// Products without their own reorder point alert at the level the pickers always warned at
+const DEFAULT_REORDER_POINT = 3;
+const VELOCITY_DAYS = 30;   // sales window for the per-day rate
+const COVER_DAYS = 14;      // a suggested order should last this long at the current rate
+const NO_SUPPLIER = "ไม่ระบุผู้จำหน่าย";
+type StockStatus = "out" | "low" | "ok";
+const reorderPointOf = (p: Product) => p.reorderPoint ?? DEFAULT_REORDER_POINT;
+const reorderTargetOf = (p: Product) => p.reorderTarget ?? reorderPointOf(p) * 2;
+const stockStatus = (p: Product): StockStatus => p.stock <= 0 ? "out" : p.stock <= reorderPointOf(p) ? "low" : "ok";
+const STOCK_STATUS: Record<Exclude<StockStatus, "ok">, { label: string; className: string }> = {
+  out: { label: "หมด", className: "bg-red-100 text-red-800" },
+  low: { label: "ใกล้หมด", className: "bg-amber-100 text-amber-800" },
+};
 
-          {build.addons.map(a => (
-            <div key={a.id} className="flex justify-between bg-muted/20 rounded-xl px-3 py-2"><div>{a.product.category}: {a.product.name} <span className="text-xs text-muted-foreground">x{a.qty}</span></div><div>{baht(a.product.price*a.qty)}</div></div>
-          ))}
+type ReorderLine = { product: Product; supplier: string; status: StockStatus; sold: number; perDay: number; daysLeft: number | null; target: number; suggested: number };
 
-          {!showAll && baseSelected.length===0 && build.addons.length===0 && <div className="text-muted-foreground">ยังไม่ได้เลือกชิ้นส่วน</div>}
-        </div>
+// Units sold per product over the last `days`, from closed sales
+function unitsSold(sales: SaleRecord[], now: number, days = VELOCITY_DAYS): Map<string, number> {
+  const since = now - days * 86_400_000, sold = new Map<string, number>();
+  for (const sale of sales) if (sale.soldAt >= since) for (const l of sale.lines) sold.set(l.productId, (sold.get(l.productId) || 0) + l.qty);
+  return sold;
+}
 
-        {/* Totals */}
-        <div className="space-y-1 text-right">
-          <div>ยอดก่อนส่วนลด: <span className="font-medium">{baht(subtotal)}</span></div>
-          <div>ส่วนลด: <span className="font-medium">{baht(discount)}</span></div>
-          {pricing.vatEnabled && <div>VAT {pricing.vatPercent}%: <span className="font-medium">{baht(vat)}</span></div>}
-          <div className="text-lg font-bold">ยอดรวมสุทธิ: {baht(total)}</div>
-          {pricing.showCost && <div className="text-sm text-muted-foreground">กำไร (ไม่รวม VAT): {baht(profit)} • มาร์จิ้น {margin.toFixed(1)}%</div>}
+// Order back up to the target level, or enough to cover COVER_DAYS of sales and still sit at the reorder point — whichever is more
+function reorderLines(inventory: Product[], sales: SaleRecord[], now: number): ReorderLine[] {
+  const sold = unitsSold(sales, now);
+  return inventory.filter(p => stockStatus(p) !== "ok").map(p => {
+    const n = sold.get(p.id) || 0, perDay = n / VELOCITY_DAYS, target = reorderTargetOf(p);
+    const need = Math.max(target, Math.ceil(perDay * COVER_DAYS) + reorderPointOf(p));
+    return {
+      product: p, supplier: p.supplier?.trim() || NO_SUPPLIER, status: stockStatus(p), sold: n, perDay,
+      daysLeft: perDay > 0 ? Math.max(0, p.stock) / perDay : null, target, suggested: Math.max(1, need - Math.max(0, p.stock)),
+    };
+  }).sort((a, b) => (a.supplier === NO_SUPPLIER ? 1 : 0) - (b.supplier === NO_SUPPLIER ? 1 : 0) || a.supplier.localeCompare(b.supplier) || a.product.name.localeCompare(b.product.name));
+}
+const groupBySupplier = (lines: ReorderLine[]) => Array.from(lines.reduce((m, l) => m.set(l.supplier, [...(m.get(l.supplier) || []), l]), new Map<string, ReorderLine[]>()));
+
+// One sheet per supplier so each can be sent as a purchase order; CSV has no sheets, so it gets a supplier column instead
+function exportReorderReport(lines: ReorderLine[], format: "xlsx"|"csv") {
+  const row = (l: ReorderLine) => ({
+    supplier: l.supplier, sku: l.product.sku ?? "", barcode: l.product.barcode ?? "", name: l.product.name, category: l.product.category,
+    stock: l.product.stock, reorderPoint: reorderPointOf(l.product), reorderTarget: l.target, [`sold${VELOCITY_DAYS}d`]: l.sold,
+    perDay: Number(l.perDay.toFixed(2)), suggested: l.suggested, cost: l.product.cost ?? "", lineCost: typeof l.product.cost === "number" ? l.product.cost * l.suggested : "",
+  });
+  const wb = XLSX.utils.book_new();
+  if (format === "csv") XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(lines.map(row)), "Reorder");
+  else {
+    const used = new Set<string>();
+    for (const [supplier, group] of groupBySupplier(lines)) {
+      // sheet names: max 31 chars, no []:*?/\ and unique
+      const base = supplier.replace(/[[\]:*?/\\]/g, " ").slice(0, 31) || "Supplier";
+      let name = base;
+      for (let i = 2; used.has(name); i++) name = `${base.slice(0, 28)} ${i}`;
+      used.add(name);
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(group.map(row)), name);
+    }
+  }
+  const stamp = new Date().toISOString().slice(0, 10);
+  XLSX.writeFile(wb, `ubonspec-reorder-${stamp}.${format}`, { bookType: format });
+}
+
+function StockAlerts({ inventory, sales, onEdit }:{ inventory: Product[]; sales: SaleRecord[]; onEdit:(p:Product)=>void }){
+  const [show, setShow] = useState<"all" | "out" | "low">("all");
+  const [report, setReport] = useState(false);
+  const lines = useMemo(()=>reorderLines(inventory, sales, Date.now()), [inventory, sales]);
+  const count = (st: StockStatus) => lines.filter(l => l.status === st).length;
+  const rows = show === "all" ? lines : lines.filter(l => l.status === show);
+  const groups = groupBySupplier(lines);
+  const daysLeft = (l: ReorderLine) => l.daysLeft === null ? "-" : l.daysLeft < 1 ? "< 1 วัน" : `${Math.floor(l.daysLeft)} วัน`;
+  return (
+    <Card className="shadow-sm">
+      <CardHeader><CardTitle className="flex items-center gap-2"><AlertTriangle className="w-5 h-5"/> สต็อกต่ำ / หมด</CardTitle></CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Chip active={show==="all"} onClick={()=>setShow("all")}>ทั้งหมด {lines.length}</Chip>
+          <Chip active={show==="out"} onClick={()=>setShow("out")}>หมด {count("out")}</Chip>
+          <Chip active={show==="low"} onClick={()=>setShow("low")}>ใกล้หมด {count("low")}</Chip>
+          <div className="text-xs text-muted-foreground">ยอดขาย {VELOCITY_DAYS} วันล่าสุด • จุดสั่งซื้อเริ่มต้น {DEFAULT_REORDER_POINT}</div>
+          <div className="ml-auto"><Button onClick={()=>setReport(true)} disabled={!lines.length} className={lines.length ? "" : "opacity-50 cursor-not-allowed"}><ListChecks className="w-4 h-4 mr-2"/> รายงานสั่งซื้อ</Button></div>
         </div>
+        {lines.length===0 ? <div className="text-sm text-muted-foreground">สต็อกทุกรายการสูงกว่าจุดสั่งซื้อ</div> : (
+          <div className="border rounded-2xl overflow-hidden">
+            <div className="grid grid-cols-12 bg-muted/50 px-4 py-2 text-sm font-semibold">
+              <div className="col-span-4">สินค้า</div><div className="col-span-2">ผู้จำหน่าย</div><div className="col-span-2 text-right">คงเหลือ / จุดสั่งซื้อ</div><div className="col-span-1 text-right">ขาย {VELOCITY_DAYS} วัน</div><div className="col-span-2 text-right">พอขายอีก</div><div className="col-span-1" />
+            </div>
+            <div className="max-h-[280px] overflow-auto">
+              {rows.map(l => (
+                <div key={l.product.id} className="grid grid-cols-12 items-center px-4 py-2 border-t text-sm">
+                  <div className="col-span-4 min-w-0 flex items-center gap-2"><Badge className={STOCK_STATUS[l.status as "out"|"low"].className}>{STOCK_STATUS[l.status as "out"|"low"].label}</Badge><span className="truncate" title={l.product.name}>{l.product.name}</span></div>
+                  <div className="col-span-2 truncate text-muted-foreground">{l.supplier}</div>
+                  <div className="col-span-2 text-right">{l.product.stock} / {reorderPointOf(l.product)}</div>
+                  <div className="col-span-1 text-right">{l.sold}</div>
+                  <div className="col-span-2 text-right">{daysLeft(l)}</div>
+                  <div className="col-span-1 flex justify-end"><Button variant="secondary" onClick={()=>onEdit(l.product)} title="แก้ไขสินค้า / จุดสั่งซื้อ"><Edit className="w-4 h-4"/></Button></div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
 
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-2">
-            <Button variant="secondary" onClick={()=>setShowAll(s=>!s)}>{showAll? "ซ่อนหมวดที่ไม่ได้เลือก" : "แสดงหมวดที่ไม่ได้เลือก"}</Button>
+      <Dialog open={report} onOpenChange={setReport}>
+        <DialogContent className="sm:max-w-[820px] relative">
+          <DialogHeader><DialogTitle>รายงานสั่งซื้อตามผู้จำหน่าย</DialogTitle></DialogHeader>
+          <button onClick={()=>setReport(false)} className="absolute right-3 top-3 p-1.5 rounded-full hover:bg-slate-100" aria-label="ปิด"><X className="w-5 h-5"/></button>
+          <div className="text-xs text-muted-foreground">จำนวนแนะนำ = เติมถึงระดับเป้าหมาย หรือพอขาย {COVER_DAYS} วันตามยอดขาย {VELOCITY_DAYS} วันล่าสุดแล้วยังเหลือถึงจุดสั่งซื้อ (เลือกค่าที่มากกว่า)</div>
+          <div className="max-h-[420px] overflow-auto space-y-3">
+            {groups.map(([supplier, group]) => (
+              <div key={supplier} className="border rounded-2xl overflow-hidden">
+                <div className="flex justify-between bg-muted/50 px-4 py-2 text-sm font-semibold">
+                  <span>{supplier}</span>
+                  <span>{group.length} รายการ • ทุนประมาณ {baht(group.reduce((s, l) => s + (l.product.cost ?? 0) * l.suggested, 0))}</span>
+                </div>
+                {group.map(l => (
+                  <div key={l.product.id} className="grid grid-cols-12 items-center px-4 py-1.5 border-t text-sm">
+                    <div className="col-span-6 truncate" title={l.product.name}>{l.product.name}{l.product.sku && <span className="text-xs text-muted-foreground"> · {l.product.sku}</span>}</div>
+                    <div className="col-span-2 text-right text-muted-foreground">เหลือ {l.product.stock}</div>
+                    <div className="col-span-2 text-right text-muted-foreground">{l.perDay ? `${l.perDay.toFixed(2)}/วัน` : "ไม่มียอดขาย"}</div>
+                    <div className="col-span-2 text-right font-medium">สั่ง {l.suggested}</div>
+                  </div>
+                ))}
+              </div>
+            ))}
           </div>
-          <div className="flex gap-2">
-            <Button variant="destructive" onClick={onReset}><Trash2 className="w-4 h-4 mr-2"/> รีเซ็ตสเปค</Button>
-            <Button variant="secondary" onClick={handleCopy}><Download className="w-4 h-4 mr-2"/> คัดลอกสรุป</Button>
-            <Button onClick={handlePrint}><Download className="w-4 h-4 mr-2"/> พิมพ์/บันทึก PDF</Button>
+          <DialogFooter>
+            <Button variant="secondary" onClick={()=>exportReorderReport(lines, "csv")}><Download className="w-4 h-4 mr-2"/> ส่งออก CSV</Button>
+            <Button onClick={()=>exportReorderReport(lines, "xlsx")}><Download className="w-4 h-4 mr-2"/> ส่งออก Excel (แยกชีตตามผู้จำหน่าย)</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+// ===== Saved Builds Library =====
+function BuildMetaEditor({ initial, onSave }:{ initial: SavedBuild; onSave:(meta: Pick<SavedBuild,"name"|"customer"|"note">)=>void }){
+  const [name, setName] = useState(initial.name);
+  const [customer, setCustomer] = useState(initial.customer);
+  const [note, setNote] = useState(initial.note);
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div><Label>ชื่อสเปค</Label><Input value={name} onChange={(e)=>setName(e.target.value)} placeholder="เช่น Gaming 30K" /></div>
+        <div><Label>ชื่อลูกค้า</Label><Input value={customer} onChange={(e)=>setCustomer(e.target.value)} placeholder="เช่น คุณสมชาย" /></div>
+      </div>
+      <div><Label>หมายเหตุ</Label><textarea className="w-full min-h-24 border rounded-xl px-3 py-2 text-sm" value={note} onChange={(e)=>setNote(e.target.value)} /></div>
+      <div className="flex justify-end"><Button onClick={()=>{
+        if (!name.trim()) { toast.error("กรุณาตั้งชื่อสเปค"); return; }
+        onSave({ name: name.trim(), customer: customer.trim(), note });
+      }}><Save className="w-4 h-4 mr-2"/> บันทึก</Button></div>
+    </div>
+  );
+}
+
+function BuildLibrary({ builds, activeId, onOpen, onCreate, onDuplicate, onUpdateMeta, onDelete }:{ builds: SavedBuild[]; activeId: string; onOpen:(id:string)=>void; onCreate:()=>void; onDuplicate:(id:string)=>void; onUpdateMeta:(id:string, meta: Pick<SavedBuild,"name"|"customer"|"note">)=>void; onDelete:(id:string)=>void; }){
+  const [search, setSearch] = useState("");
+  const [editing, setEditing] = useState<SavedBuild | null>(null);
+  const q = search.trim().toLowerCase();
+  const rows = useMemo(()=>[...builds]
+    .filter(b => !q || [b.name, b.customer, b.note].join(" ").toLowerCase().includes(q))
+    .sort((x,y)=>y.updatedAt-x.updatedAt), [builds, q]);
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader><CardTitle className="flex items-center gap-2"><FolderOpen className="w-5 h-5"/> สเปคที่บันทึกไว้</CardTitle></CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Input placeholder="ค้นหาชื่อสเปค / ลูกค้า / หมายเหตุ..." value={search} onChange={(e)=>setSearch(e.target.value)} className="w-72"/>
+          <div className="ml-auto"><Button onClick={onCreate}><Plus className="w-4 h-4 mr-2"/> สเปคใหม่</Button></div>
+        </div>
+        <div className="border rounded-2xl overflow-hidden">
+          <div className="grid grid-cols-12 bg-muted/50 px-4 py-2 text-sm font-semibold">
+            <div className="col-span-4">สเปค / ลูกค้า</div><div className="col-span-3">อัปเดตล่าสุด</div><div className="col-span-2 text-right">ยอดรวม</div><div className="col-span-3 text-right">จัดการ</div>
+          </div>
+          <div className="max-h-[420px] overflow-auto">
+            {rows.length===0 && <div className="px-4 py-3 text-muted-foreground">ไม่พบสเปค</div>}
+            {rows.map(b=>(
+              <div key={b.id} className={`grid grid-cols-12 items-center px-4 py-2 border-t text-sm ${b.id===activeId ? 'bg-emerald-50' : 'hover:bg-muted/30'}`}>
+                <div className="col-span-4 min-w-0">
+                  <div className="font-medium truncate flex items-center gap-2" title={b.name}>{b.name}{b.id===activeId && <Badge className="rounded-xl">กำลังใช้งาน</Badge>}</div>
+                  <div className="text-xs text-muted-foreground truncate">{b.customer || "— ไม่ระบุลูกค้า —"}{b.note ? ` • ${b.note}` : ""}</div>
+                </div>
+                <div className="col-span-3 text-xs text-muted-foreground">
+                  <div>{dateTime(b.updatedAt)}</div>
+                  <div>สร้าง {dateTime(b.createdAt)}</div>
+                </div>
+                <div className="col-span-2 text-right">{baht(buildSubtotal(b.build, b.tier))}{b.tier && b.tier !== "retail" && <div className="text-xs text-muted-foreground">{tierLabel(b.tier)}</div>}</div>
+                <div className="col-span-3 flex justify-end gap-2">
+                  <Button variant="secondary" onClick={()=>onOpen(b.id)} disabled={b.id===activeId} title="เปิด">เปิด</Button>
+                  <Button variant="secondary" onClick={()=>setEditing(b)} title="แก้ไขชื่อ"><Edit className="w-4 h-4"/></Button>
+                  <Button variant="secondary" onClick={()=>onDuplicate(b.id)} title="ทำสำเนา"><Copy className="w-4 h-4"/></Button>
+                  <Button variant="destructive" onClick={()=>{ if (confirm(`ลบสเปค "${b.name}"?`)) onDelete(b.id); }} title="ลบ"><Trash2 className="w-4 h-4"/></Button>
+                </div>
+              </div>
+            ))}
           </div>
         </div>
       </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(o)=>{ if(!o) setEditing(null); }}>
+        <DialogContent className="sm:max-w-[560px] relative">
+          <DialogHeader><DialogTitle>แก้ไขข้อมูลสเปค</DialogTitle></DialogHeader>
+          <button onClick={()=>setEditing(null)} className="absolute right-3 top-3 p-1.5 rounded-full hover:bg-slate-100" aria-label="ปิด"><X className="w-5 h-5"/></button>
+          {editing && <BuildMetaEditor initial={editing} onSave={(meta)=>{ onUpdateMeta(editing.id, meta); setEditing(null); }} />}
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 }
 
 // ===== Smart Sync =====
-function deriveFiltersFromSelection(base: Partial<Record<BaseCategory, Product>>, current: AttrFilters): AttrFilters {
+function deriveFiltersFromSelection(base: BaseSelection, current: AttrFilters, power: PowerSettings): AttrFilters {
   const next: AttrFilters = { ...current };
-  const cpu = base["CPU"]; const mb = base["Motherboard"]; const cooler = base["Cooler"]; const storage = base["Storage"]; const psu = base["PSU"];
+  const cpu = firstProduct(base, "CPU"); const mb = firstProduct(base, "Motherboard"); const storage = firstProduct(base, "Storage"); const psu = firstProduct(base, "PSU");
   if (cpu?.attributes?.socket) next.socket = cpu.attributes.socket;
   if (!cpu?.attributes?.socket && mb?.attributes?.socket) next.socket = mb.attributes.socket;
   if (mb?.attributes?.ramType) next.ramType = mb.attributes.ramType;
@@ -810,18 +3095,378 @@ function deriveFiltersFromSelection(base: Partial<Record<BaseCategory, Product>>
   if (storage?.attributes?.interface) next.storageInterface = storage.attributes.interface;
   if (!storage?.attributes?.interface && Array.isArray(mb?.attributes?.storage) && mb!.attributes.storage.length>0) next.storageInterface = mb!.attributes.storage[0];
   if (cpu?.attributes?.socket) next.coolerSocket = cpu.attributes.socket;
-  if (psu) next.minPSUWatt = Math.max(estimateWattage(base), 0);
+  if (psu) next.minPSUWatt = Math.max(estimateWattage(base, power), 0);
   return next;
 }
 
+// ===== Build Generator =====
+type UseCaseProfile = { id: string; label: string; categories: BaseCategory[]; weights: Partial<Record<BaseCategory, number>> };
+// Weights say where extra budget buys the most for the use case; unlisted categories get the cheapest compatible part
+const USE_CASE_PROFILES: UseCaseProfile[] = [
+  { id: "gaming", label: "เล่นเกม", categories: [...BASE_CATEGORIES], weights: { GPU: 4, CPU: 2, RAM: 1, Storage: 1, Motherboard: 0.5, PSU: 0.5 } },
+  { id: "creator", label: "ตัดต่อ / กราฟิก", categories: [...BASE_CATEGORIES], weights: { CPU: 3, GPU: 2.5, RAM: 2, Storage: 1.5, Motherboard: 0.5, PSU: 0.5 } },
+  { id: "office", label: "งานเอกสาร / ออฟฟิศ", categories: ["CPU","Motherboard","RAM","Storage","PSU","Case","Cooler"], weights: { CPU: 2, Storage: 1.5, RAM: 1 } },
+];
+// Order matters: parts that constrain others (socket, RAM type, form factor) come first so the beam prunes early;
+// base categories added in the registry follow in registry order
+const GENERATOR_ORDER: BaseCategory[] = ["CPU","Motherboard","RAM","GPU","Storage","Cooler","Case","PSU"];
+const generatorCategories = (categories: CategoryDef[]) => {
+  const base = baseCategoryNames(categories);
+  return [...GENERATOR_ORDER.filter(c => base.includes(c)), ...base.filter(c => !GENERATOR_ORDER.includes(c))];
+};
+const GENERATOR_BEAM = 40;
+
+type GeneratorOptions = { budget: number; profileId: string; fixed: Map<BaseCategory, Product>; required: BaseCategory[]; results: number };
+type GeneratedBuild = { id: string; base: BaseSelection; total: number; cost: number; margin: number; score: number; warnings: number };
+
+function generateBuilds(inventory: Product[], opts: GeneratorOptions, rules: CompatRule[], power: PowerSettings, categories: CategoryDef[]): GeneratedBuild[] {
+  const profile = USE_CASE_PROFILES.find(p => p.id === opts.profileId) || USE_CASE_PROFILES[0];
+  const cats = generatorCategories(categories).filter(c => opts.fixed.has(c) || profile.categories.includes(c) || opts.required.includes(c));
+  const candidates = new Map(cats.map(c => {
+    const fixed = opts.fixed.get(c);
+    return [c, fixed ? [fixed] : inventory.filter(p => p.category === c && p.stock > 0).sort((a,b)=>a.price-b.price)];
+  }));
+  if (cats.some(c => !candidates.get(c)!.length)) return [];
+
+  // Cheapest possible completion, used to drop partial builds that can no longer fit the budget
+  const minRest = cats.map((_, i) => cats.slice(i + 1).reduce((s,c)=>s+candidates.get(c)![0].price, 0));
+  const scoreOf = (base: BaseSelection) => baseEntries(base).reduce((s,e)=>s+(own(profile.weights, e.cat)||0)*e.product.price, 0);
+  type Candidate = { base: BaseSelection; total: number; score: number };
+  let beam: Candidate[] = [{ base: {}, total: 0, score: 0 }];
+  cats.forEach((cat, i) => {
+    const next: Candidate[] = [];
+    for (const b of beam) for (const p of candidates.get(cat)!) {
+      const total = b.total + p.price;
+      if (total + minRest[i] > opts.budget) break; // candidates are price-sorted
+      const base = { ...b.base, [cat]: [{ id: uid(), product: p, qty: 1 }] };
+      if (checkCompatibility(base, rules, power, categories).level === "error") continue;
+      next.push({ base, total, score: scoreOf(base) });
+    }
+    beam = next.sort((x,y)=>y.score-x.score || x.total-y.total).slice(0, GENERATOR_BEAM);
+  });
+
+  // Keep the proposals meaningfully different: one per CPU + GPU pairing
+  const seen = new Set<string>();
+  const out: GeneratedBuild[] = [];
+  for (const b of beam) {
+    const key = `${firstProduct(b.base, "CPU")?.id}|${firstProduct(b.base, "GPU")?.id}`;
+    if (seen.has(key)) continue; seen.add(key);
+    const cost = baseEntries(b.base).reduce((s,e)=>s+(e.product.cost||0), 0);
+    const warnings = checkCompatibility(b.base, rules, power, categories).notes.filter(n => n.level === "warn").length;
+    out.push({ id: uid(), base: b.base, total: b.total, cost, margin: b.total>0 ? (b.total-cost)/b.total*100 : 0, score: b.score, warnings });
+    if (out.length >= opts.results) break;
+  }
+  return out;
+}
+
+function BuildGenerator({ inventory, categories, required, rules, power, onLoad }:{ inventory: Product[]; categories: CategoryDef[]; required: BaseCategory[]; rules: CompatRule[]; power: PowerSettings; onLoad:(name: string, base: BaseSelection)=>void }){
+  const [budget, setBudget] = useState<number>(30000);
+  const [profileId, setProfileId] = useState<string>(USE_CASE_PROFILES[0].id);
+  const [fixedIds, setFixedIds] = useState<Partial<Record<BaseCategory, string>>>({});
+  const [results, setResults] = useState<GeneratedBuild[] | null>(null);
+  const profile = USE_CASE_PROFILES.find(p => p.id === profileId) || USE_CASE_PROFILES[0];
+  const cats = useMemo(() => generatorCategories(categories), [categories]);
+
+  const run = () => {
+    if (budget <= 0) { toast.error("กรุณาระบุงบประมาณ"); return; }
+    const fixed = new Map<BaseCategory, Product>();
+    for (const c of cats) { const p = inventory.find(x => x.id === own(fixedIds, c)); if (p) fixed.set(c, p); }
+    const out = generateBuilds(inventory, { budget, profileId, fixed, required, results: 5 }, rules, power, categories);
+    setResults(out);
+    if (!out.length) toast.error("ไม่พบสเปคที่เข้ากันได้ภายในงบนี้");
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="shadow-sm">
+        <CardHeader><CardTitle className="flex items-center gap-2"><Wand2 className="w-5 h-5"/> จัดสเปคอัตโนมัติ</CardTitle></CardHeader>
+        <CardContent className="space-y-3">
+          <div className="grid md:grid-cols-3 gap-3">
+            <div><Label>งบประมาณ (บาท, เฉพาะชิ้นส่วนหลัก)</Label><Input type="number" value={budget} onChange={e=>setBudget(Number(e.target.value||0))} /></div>
+            <div>
+              <Label>การใช้งาน</Label>
+              <Select value={profileId} onValueChange={setProfileId}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>{USE_CASE_PROFILES.map(p => <SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-end"><Button onClick={run} className="w-full"><Wand2 className="w-4 h-4 mr-2"/> ค้นหาสเปค</Button></div>
+          </div>
+          <div className="text-sm text-muted-foreground">หมวดที่จัดให้: {cats.filter(c => profile.categories.includes(c) || required.includes(c) || own(fixedIds, c)).join(", ")}</div>
+          <div>
+            <Label>ล็อกชิ้นส่วน (ไม่บังคับ)</Label>
+            <div className="grid md:grid-cols-4 gap-2 mt-1">
+              {cats.map(c => (
+                <Select key={c} value={own(fixedIds, c) || "__none__"} onValueChange={(id)=>setFixedIds(f => ({ ...f, [c]: id==="__none__" ? undefined : id }))}>
+                  <SelectTrigger className="w-full"><SelectValue placeholder={c} /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="__none__">{c}: อัตโนมัติ</SelectItem>
+                    {sortProducts(inventory.filter(p => p.category===c && p.stock>0), "priceAsc").map(p => <SelectItem key={p.id} value={p.id}>{p.name} — {baht(p.price)}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              ))}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {results && results.length>0 && (
+        <div className="grid md:grid-cols-2 gap-4">
+          {results.map((r, i) => (
+            <Card key={r.id} className="shadow-sm">
+              <CardHeader><CardTitle className="flex items-center justify-between"><span>ตัวเลือกที่ {i+1}</span><span>{baht(r.total)}</span></CardTitle></CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {baseEntries(r.base).map(e => <div key={e.id} className="flex justify-between gap-2"><span className="truncate" title={e.product.name}><span className="font-medium">{e.cat}:</span> {e.product.name}</span><span>{baht(e.product.price)}</span></div>)}
+                <div className="flex justify-between text-muted-foreground"><span>เหลืองบ {baht(budget - r.total)}{r.warnings>0 ? ` • คำเตือน ${r.warnings}` : ""}</span><span>กำไร {baht(r.total - r.cost)} • {r.margin.toFixed(1)}%</span></div>
+                <div className="flex justify-end"><Button onClick={()=>onLoad(`${profile.label} ${baht(budget)} #${i+1}`, r.base)}>ใช้สเปคนี้</Button></div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ===== Share links =====
+// A build travels in the URL hash (#share=…), so the link opens on the customer's device without the shop's data
+// and the catch-all rewrite never sees it. Only customer-facing fields go in: no cost, profit or stock.
+type SharedLine = [kind: 0|1, category: string, productId: string, name: string, price: number, qty: number];
+type SharedBuild = {
+  v: 1;
+  name: string;
+  customer: string;
+  at: number;
+  lines: SharedLine[];
+  pricing: Omit<Pricing,"showCost">;
+  tier?: PriceTier;
+  promos?: [name: string, amount: number][];
+  level: CompatNote["level"];
+  notes: [level: CompatNote["level"], msg: string][];
+};
+const SHARE_PREFIX = "#share=";
+
+function toSharedBuild(saved: SavedBuild, pricing: Pricing, promos: AppliedPromotion[], compat: { level: CompatNote["level"]; notes: CompatNote[] }): SharedBuild {
+  const { build, tier } = saved;
+  const lines: SharedLine[] = [
+    ...baseEntries(build.base).map((e): SharedLine => [0, e.cat, e.product.id, e.product.name, tierPrice(e.product, tier), e.qty]),
+    ...build.addons.map((a): SharedLine => [1, a.product.category, a.product.id, a.product.name, tierPrice(a.product, tier), a.qty]),
+  ];
+  const { discountType, discountValue, vatEnabled, vatPercent, vatMode } = pricing;
+  return {
+    v: 1, name: saved.name, customer: saved.customer, at: Date.now(), lines,
+    pricing: { discountType, discountValue, vatEnabled, vatPercent, vatMode }, tier,
+    promos: promos.length ? promos.map(p => [p.name, p.amount]) : undefined,
+    level: compat.level, notes: compat.notes.filter(n => n.level !== "ok").map(n => [n.level, n.msg]),
+  };
+}
+// The link is customer-editable, so lines still in stock come back as the live product at the live price;
+// linkPrices keeps the price the link showed (entry id → price) wherever it differs, for the drift panel
+function sharedToBuild(shared: SharedBuild, inventory: Product[]): { build: BuildState; linkPrices: Record<string, number> } {
+  const build = emptyBuild(), linkPrices: Record<string, number> = {};
+  for (const [kind, category, id, name, price, qty] of shared.lines) {
+    const live = inventory.find(p => p.id === id);
+    const entry = { id: uid(), product: live || { id, name, category, price, stock: 0, attributes: {} }, qty };
+    if (live && tierPrice(live, shared.tier) !== price) linkPrices[entry.id] = price;
+    if (kind === 1) build.addons.push(entry);
+    else build.base[category] = [...(own(build.base, category) || []), entry];
+  }
+  return { build, linkPrices };
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+const fromBase64Url = (s: string) => Uint8Array.from(atob(s.replace(/-/g, "+").replace(/_/g, "/")), c => c.charCodeAt(0));
+const pipeBytes = async (bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+// "z" = deflate-raw compressed JSON, "j" = plain JSON for browsers without CompressionStream
+async function encodeShare(shared: SharedBuild): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(shared));
+  if (typeof CompressionStream === "undefined") return "j" + toBase64Url(json);
+  return "z" + toBase64Url(await pipeBytes(json, new CompressionStream("deflate-raw")));
+}
+async function decodeShare(data: string): Promise<SharedBuild> {
+  const bytes = fromBase64Url(data.slice(1));
+  const json = data[0] === "z" ? await pipeBytes(bytes, new DecompressionStream("deflate-raw")) : data[0] === "j" ? bytes : null;
+  if (!json) throw new Error("unknown link format");
+  const shared = JSON.parse(new TextDecoder().decode(json));
+  if (shared?.v !== 1) throw new Error("unsupported link version");
+  if (!isSharedBuild(shared)) throw new Error("malformed link");
+  return shared;
+}
+// Links can be truncated or hand-edited; everything the customer view and import read is checked before use
+const isSharedLine = (l: unknown): l is SharedLine => Array.isArray(l) && l.length === 6 && (l[0] === 0 || l[0] === 1)
+  && typeof l[1] === "string" && typeof l[2] === "string" && typeof l[3] === "string" && Number.isFinite(l[4]) && Number.isFinite(l[5]);
+function isSharedBuild(x: any): x is SharedBuild {
+  return !!x && typeof x === "object" && typeof x.name === "string" && Array.isArray(x.lines) && x.lines.every(isSharedLine)
+    && Array.isArray(x.notes) && x.notes.every((n: unknown) => Array.isArray(n) && n.length === 2 && typeof n[1] === "string")
+    && !!x.pricing && typeof x.pricing === "object" && !Array.isArray(x.pricing)
+    && (x.promos === undefined || (Array.isArray(x.promos) && x.promos.every((p: unknown) => Array.isArray(p) && typeof p[0] === "string" && Number.isFinite(p[1]))));
+}
+
+const COMPAT_VERDICT: Record<CompatNote["level"], { label: string; cls: string }> = {
+  ok: { label: "ชิ้นส่วนเข้ากันได้ทั้งหมด", cls: "bg-emerald-50 text-emerald-700" },
+  warn: { label: "เข้ากันได้ มีข้อควรระวัง", cls: "bg-amber-50 text-amber-700" },
+  error: { label: "มีชิ้นส่วนที่ไม่เข้ากัน — กรุณาสอบถามร้าน", cls: "bg-red-50 text-red-700" },
+};
+
+// Read-only customer view; the import button is for staff opening the link on the shop's machine
+function SharedBuildView({ shared, onImport }:{ shared: SharedBuild; onImport: ()=>void }){
+  useEffect(() => { document.title = `สเปค: ${shared.name} — Ubon Computer`; }, [shared.name]);
+  const promos = (shared.promos || []).map(([name, amount], i): AppliedPromotion => ({ id: String(i), name, amount, items: [] }));
+  const t = calcTotals(sharedToBuild(shared, []).build, { ...shared.pricing, showCost: false }, "retail", promos);
+  const verdict = COMPAT_VERDICT[shared.level] || COMPAT_VERDICT.ok;
+  const row = ([kind, category, id, name, price, qty]: SharedLine) => (
+    <div key={`${kind}${id}`} className={`flex justify-between rounded-xl px-3 py-2 ${kind ? "bg-muted/20" : "bg-muted/30"}`}>
+      <div><span className="font-medium">{category}:</span> {name}{qty>1 && <span className="text-xs text-muted-foreground"> x{qty}</span>}</div>
+      <div>{baht(price*qty)}</div>
+    </div>
+  );
+  return (
+    <div className="p-4 md:p-8 max-w-3xl mx-auto space-y-4">
+      <div className="rounded-2xl p-5 bg-gradient-to-r from-slate-900 via-slate-800 to-slate-700 text-white shadow">
+        <div className="text-2xl font-bold tracking-tight">{shared.name}</div>
+        <div className="text-slate-300 text-sm mt-1">อุบลคอมพิวเตอร์{shared.customer ? ` · สำหรับ ${shared.customer}` : ""} · {tierLabel(shared.tier)} ณ {dateTime(shared.at)}</div>
+      </div>
+      <Card className="shadow-sm">
+        <CardContent className="pt-4 space-y-4">
+          <div className={`rounded-xl px-3 py-2 ${verdict.cls}`}>
+            <div className="font-medium">{verdict.label}</div>
+            {shared.notes.map(([level, msg], i) => <div key={i} className="text-sm">{level === "error" ? "✖" : "⚠"} {msg}</div>)}
+          </div>
+          <div className="space-y-2">
+            {shared.lines.filter(l => l[0] === 0).map(row)}
+            {shared.lines.some(l => l[0] === 1) && <div className="text-sm text-muted-foreground pt-1">Option เสริม</div>}
+            {shared.lines.filter(l => l[0] === 1).map(row)}
+            {!shared.lines.length && <div className="text-muted-foreground">ยังไม่ได้เลือกชิ้นส่วน</div>}
+          </div>
+          <div className="space-y-1 text-right">
+            <div>ยอดก่อนส่วนลด: <span className="font-medium">{baht(t.subtotal)}</span></div>
+            {promos.map(p => <div key={p.id} className="text-emerald-700">โปรโมชัน {p.name}: <span className="font-medium">-{baht(p.amount)}</span></div>)}
+            {t.discount>0 && <div>ส่วนลด: <span className="font-medium">{baht(t.discount)}</span></div>}
+            {shared.pricing.vatEnabled && <div>{vatLabel({ ...shared.pricing, showCost: false })}: <span className="font-medium">{baht(t.vat)}</span></div>}
+            <div className="text-lg font-bold">ยอดรวมสุทธิ: {baht(t.total)}</div>
+          </div>
+        </CardContent>
+      </Card>
+      <div className="flex justify-end gap-2 print:hidden">
+        <Button variant="secondary" onClick={onImport} title="สำหรับพนักงาน: เปิดเป็นสเปคใหม่ในเครื่องนี้"><FolderOpen className="w-4 h-4 mr-2"/> นำเข้าสู่ตัวจัดสเปค</Button>
+        <Button onClick={()=>window.print()}><Download className="w-4 h-4 mr-2"/> พิมพ์/บันทึก PDF</Button>
+      </div>
+    </div>
+  );
+}
+
 // ===== Main App =====
+// A #share= link shows the read-only view instead of the shop UI; importing it hands the build to ShopApp
 export default function App(){
+  const [shared, setShared] = useState<SharedBuild | "loading" | "invalid" | null>(() => window.location.hash.startsWith(SHARE_PREFIX) ? "loading" : null);
+  const [incoming, setIncoming] = useState<SharedBuild | null>(null);
+  useEffect(() => {
+    const read = () => {
+      const { hash } = window.location;
+      if (!hash.startsWith(SHARE_PREFIX)) { setShared(null); return; }
+      setShared("loading");
+      decodeShare(hash.slice(SHARE_PREFIX.length)).then(setShared, () => setShared("invalid"));
+    };
+    read();
+    window.addEventListener("hashchange", read);
+    return () => window.removeEventListener("hashchange", read);
+  }, []);
+  const leaveShared = () => { window.history.replaceState(null, "", window.location.pathname + window.location.search); setShared(null); };
+
+  if (shared === "loading") return <div className="p-8 text-center text-muted-foreground">กำลังเปิดสเปค…</div>;
+  if (shared === "invalid") return (
+    <div className="p-8 max-w-xl mx-auto text-center space-y-3">
+      <div className="rounded-xl px-3 py-2 bg-red-50 text-red-700">ลิงก์สเปคไม่ถูกต้องหรือไม่ครบ</div>
+      <Button variant="secondary" onClick={leaveShared}>ไปหน้าหลัก</Button>
+    </div>
+  );
+  if (shared) return <SharedBuildView shared={shared} onImport={()=>{ setIncoming(shared); leaveShared(); }} />;
+  return <ShopApp incoming={incoming} onIncomingDone={()=>setIncoming(null)} />;
+}
+
+function ShopApp({ incoming, onIncomingDone }:{ incoming: SharedBuild | null; onIncomingDone: ()=>void }){
   const [inventory, setInventory] = useLocalStorage<Product[]>(STORAGE_KEYS.inventory, DEMO_DATA);
-  const [build, setBuild] = useLocalStorage<BuildState>(STORAGE_KEYS.build, { base: {}, addons: [] });
+  const [builds, setBuilds] = useLocalStorage<SavedBuild[]>(STORAGE_KEYS.builds, loadInitialBuilds, migrateBuilds);
+  const [activeBuildId, setActiveBuildId] = useLocalStorage<string>(STORAGE_KEYS.activeBuild, "");
   const [pricing, setPricing] = useLocalStorage<Pricing>(STORAGE_KEYS.pricing, { discountType:"none", discountValue:0, vatEnabled:true, vatPercent:7, showCost:true });
   const [required, setRequired] = useLocalStorage<BaseCategory[]>(STORAGE_KEYS.required, ["CPU","Motherboard","PSU"]);
   const [filters, setFilters] = useLocalStorage<AttrFilters>(STORAGE_KEYS.filters, {});
   const [smartSync, setSmartSync] = useLocalStorage<boolean>(STORAGE_KEYS.smartSync, true);
+  const [sales, setSales] = useLocalStorage<SaleRecord[]>(STORAGE_KEYS.sales, []);
+  const [rules, setRules] = useLocalStorage<CompatRule[]>(STORAGE_KEYS.rules, DEFAULT_RULES, migrateRules);
+  const [power, setPower] = useLocalStorage<PowerSettings>(STORAGE_KEYS.power, { headroomPercent: 30 });
+  const [importProfiles, setImportProfiles] = useLocalStorage<MappingProfile[]>(STORAGE_KEYS.importProfiles, []);
+  const [scanMode, setScanMode] = useLocalStorage<boolean>(STORAGE_KEYS.scanMode, false);
+  const [categories, setCategories] = useLocalStorage<CategoryDef[]>(STORAGE_KEYS.categories, DEFAULT_CATEGORIES, migrateCategories);
+  const schema = useMemo(()=>importSchema(categories), [categories]);
+  const [audit, setAudit] = useLocalStorage<AuditEntry[]>(STORAGE_KEYS.audit, [], pruneAudit);
+  const [shop, setShop] = useLocalStorage<ShopSettings>(STORAGE_KEYS.shop, DEFAULT_SHOP, s => ({ ...DEFAULT_SHOP, ...s }));
+  const [counters, setCounters] = useLocalStorage<DocCounters>(STORAGE_KEYS.counters, {});
+  const [documents, setDocuments] = useLocalStorage<TaxDocument[]>(STORAGE_KEYS.documents, []);
+  const [promotions, setPromotions] = useLocalStorage<Promotion[]>(STORAGE_KEYS.promotions, DEFAULT_PROMOTIONS);
+  const [paymentPlans, setPaymentPlans] = useLocalStorage<PaymentPlan[]>(STORAGE_KEYS.paymentPlans, DEFAULT_PAYMENT_PLANS);
+  const [operator, setOperator] = useLocalStorage<string>(STORAGE_KEYS.operator, "");
+
+  // The builder and Summary always work on the active saved build
+  const activeBuild = builds.find(b => b.id === activeBuildId) || builds[0];
+  const build = activeBuild?.build || emptyBuild();
+  // A sold build is the record of that sale: its parts, tier and coupons no longer change (copy it to sell again)
+  const sold = !!activeBuild?.saleId;
+  const soldLocked = () => {
+    if (sold) toast.error("สเปคนี้ปิดการขายแล้ว แก้ไขไม่ได้ — หากต้องการแก้ไขให้ทำสำเนาสเปค");
+    return sold;
+  };
+  // Totals for a sold build come from its sale record (lines, pricing, tier, promotions as they were that day),
+  // so later edits to promotions or the discount / VAT settings don't change a recorded sale; only show / hide profit stays live
+  const sale = activeBuild?.saleId ? sales.find(s => s.id === activeBuild.saleId) : undefined;
+  const saleView = useMemo(() => sale && saleBuild(sale, baseCategoryNames(categories)), [sale, categories]);
+  const shownBuild = saleView || build;
+  const shownPricing = sale ? { ...sale.pricing, showCost: pricing.showCost } : pricing;
+  const tier = sale ? sale.tier || "retail" : activeBuild?.tier || "retail";
+  const setTier = (t: PriceTier) => {
+    if (!activeBuild || soldLocked()) return;
+    setBuilds(prev => prev.map(b => b.id === activeBuild.id ? { ...b, tier: t, updatedAt: Date.now() } : b));
+    toast.message(`ใช้${tierLabel(t)}กับสเปคนี้`);
+  };
+  const coupons = activeBuild?.coupons || [];
+  const promos = sale ? sale.promotions || [] : applyPromotions(build, tier, promotions, Date.now(), coupons);
+  const addCoupon = (code: string) => {
+    const key = couponKey(code);
+    if (!activeBuild || !key || soldLocked()) return false;
+    if (coupons.some(c => couponKey(c) === key)) { toast.message("ใช้คูปองนี้แล้ว"); return false; }
+    const promo = promotions.find(p => couponKey(p.coupon) === key);
+    if (!promo) { toast.error(`ไม่พบคูปอง ${key}`); return false; }
+    if (!promoActive(promo, Date.now(), [key])) { toast.error(`คูปอง ${key} ยังไม่เปิดใช้หรือหมดอายุแล้ว`); return false; }
+    setBuilds(prev => prev.map(b => b.id === activeBuild.id ? { ...b, coupons: [...(b.coupons || []), key], updatedAt: Date.now() } : b));
+    if (!applyPromotions(build, tier, [promo], Date.now(), [key]).length) toast.message(`เพิ่มคูปอง ${key} แล้ว แต่สเปคยังไม่เข้าเงื่อนไข`);
+    else toast.success(`ใช้คูปอง ${key}: ${promo.name}`);
+    return true;
+  };
+  const removeCoupon = (code: string) => {
+    if (!activeBuild || soldLocked()) return;
+    setBuilds(prev => prev.map(b => b.id === activeBuild.id ? { ...b, coupons: (b.coupons || []).filter(c => c !== code), updatedAt: Date.now() } : b));
+  };
+  // Every change is recorded as an undo step; buildRef lets several updates in one event chain correctly
+  const buildRef = useRef(build);
+  buildRef.current = build;
+  const [histories, setHistories] = useState<Record<string, BuildHistory>>({});
+  const history = (activeBuild && histories[activeBuild.id]) || emptyHistory();
+  const setBuild = (next: BuildState | ((prev: BuildState) => BuildState), label?: string) => {
+    if (!activeBuild || soldLocked()) return;
+    const prev = buildRef.current;
+    const value = typeof next === "function" ? next(prev) : next;
+    if (value === prev) return;
+    buildRef.current = value;
+    const id = activeBuild.id, stepLabel = label ?? describeBuildChange(prev, value);
+    if (stepLabel) setHistories(h => ({ ...h, [id]: pushStep(h[id], { label: stepLabel, build: prev, filters }) }));
+    setBuilds(all => all.map(b => b.id === id ? { ...b, build: value, updatedAt: Date.now() } : b));
+  };
 
   const [query, setQuery] = useState("");
   const [editing, setEditing] = useState<Product | null>(null);
@@ -850,39 +3495,120 @@ export default function App(){
     return () => window.removeEventListener('keydown', onKey);
   }, []);
 
+  // A shared link opened by staff becomes a new saved build (the ref keeps StrictMode's double effect from adding it twice)
+  const importedShare = useRef<SharedBuild | null>(null);
+  useEffect(() => {
+    if (!incoming || importedShare.current === incoming) return;
+    importedShare.current = incoming;
+    const { build: imported, linkPrices } = sharedToBuild(incoming, inventory);
+    const b = { ...newSavedBuild(incoming.name, imported), customer: incoming.customer, tier: incoming.tier, ...(Object.keys(linkPrices).length ? { linkPrices } : {}) };
+    setBuilds(prev => [b, ...prev]); setActiveBuildId(b.id);
+    toast.success(`นำเข้าสเปคจากลิงก์แล้ว: ${incoming.name}`);
+    onIncomingDone();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [incoming]);
+
   const fileRef = useRef<HTMLInputElement>(null);
 
   const filtered = useMemo(()=>{
     const q = query.trim().toLowerCase(); if (!q) return inventory;
-    return inventory.filter(p => [p.name, p.category, JSON.stringify(p.attributes)].join(" ").toLowerCase().includes(q));
+    return inventory.filter(p => [p.name, p.category, p.sku, p.barcode, JSON.stringify(p.attributes)].join(" ").toLowerCase().includes(q));
   }, [inventory, query]);
 
   const sortedFiltered = useMemo(()=>sortProducts(filtered, sortMode), [filtered, sortMode]);
 
+  // Every inventory mutation goes through here so it lands in the audit log.
+  // Reads the latest state via a ref so toast actions fired later do not undo against a stale inventory.
+  const latest = useRef({ inventory, audit, operator });
+  latest.current = { inventory, audit, operator };
+  const commitInventory = (next: Product[], ctx: Omit<AuditContext,"user">): AuditEntry[] => {
+    const entries = auditInventory(latest.current.inventory, next, { ...ctx, user: latest.current.operator.trim() });
+    latest.current = { ...latest.current, inventory: next, audit: pruneAudit([...entries, ...latest.current.audit]) };
+    setInventory(next);
+    if (entries.length) setAudit(prev => pruneAudit([...entries, ...prev]));
+    return entries;
+  };
+  const undoChange = (entry: AuditEntry) => {
+    if (auditUndone(latest.current.audit).has(entry.id)) { toast.error("รายการนี้ถูกย้อนกลับไปแล้ว"); return; }
+    const res = undoAudit(latest.current.inventory, entry);
+    if ("error" in res) { toast.error(`ย้อนกลับไม่ได้: ${res.error}`); return; }
+    commitInventory(res.next, { source: "undo", undoOf: entry.id });
+    const label = entry.action === "delete" ? `กู้คืน ${entry.productName} แล้ว` : `ย้อนกลับการ${AUDIT_ACTION[entry.action]} ${entry.productName} แล้ว`;
+    if (res.skipped.length) toast.warning(`${label} (ข้าม ${res.skipped.map(c => fieldLabel[c.field] || c.field).join(", ")} ที่ถูกแก้ไขภายหลัง)`);
+    else toast.success(label);
+  };
+  const [historyFor, setHistoryFor] = useState<Product | "all" | null>(null);
+
   const saveProduct = (p: Product) => {
-    setInventory(prev => {
-      const idx = prev.findIndex(x => x.id === p.id);
-      const next = [...prev];
-      if (idx >= 0) next[idx] = p; else next.unshift(p);
-      toast.success(idx >= 0 ? "อัปเดตสินค้าแล้ว" : "เพิ่มสินค้าแล้ว");
-      return next;
-    });
+    const exists = inventory.some(x => x.id === p.id);
+    commitInventory(exists ? inventory.map(x => x.id === p.id ? p : x) : [p, ...inventory], { source: "manual" });
+    toast.success(exists ? "อัปเดตสินค้าแล้ว" : "เพิ่มสินค้าแล้ว");
+  };
+  const deleteCategory = (name: string) => {
+    setCategories(prev => prev.filter(c => c.name !== name));
+    setRequired(prev => prev.filter(c => c !== name));
+    setFilters(f => { const byCategory = { ...f.byCategory }; delete byCategory[name]; return { ...f, byCategory }; });
+    toast.success(`ลบหมวด ${name} แล้ว`);
+  };
+  const deleteProduct = (id: string) => {
+    const [entry] = commitInventory(inventory.filter(p => p.id !== id), { source: "manual" });
+    if (entry) toast.success("ลบสินค้าแล้ว", { action: { label: "กู้คืน", onClick: () => undoChange(entry) } });
   };
-  const deleteProduct = (id: string) => { setInventory(prev => prev.filter(p => p.id !== id)); toast.success("ลบสินค้าแล้ว"); };
 
+  // mapping step first; `plan` is set once the user moves on to the dry-run preview
+  const [importing, setImporting] = useState<{ fileName: string; wb: XLSX.WorkBook; mapping: ImportMapping; plan?: ImportPlanRow[] } | null>(null);
   const handleImport = async (file: File) => {
-    try { const items = await parseWorkbookToProducts(file); setInventory(prev => [...items, ...prev]); toast.success(`นำเข้า ${items.length} รายการสำเร็จ`); }
-    catch (e:any){ toast.error("นำเข้าล้มเหลว: " + (e?.message || "")); }
+    try { const wb = await readWorkbook(file); setImporting({ fileName: file.name, wb, mapping: defaultMapping(wb, schema) }); }
+    catch (e:any){ toast.error("อ่านไฟล์ไม่สำเร็จ: " + (e?.message || "")); }
+  };
+  const previewImport = () => setImporting(cur => cur && { ...cur, plan: planImport(workbookToRows(cur.wb, schema, cur.mapping), inventory) });
+  const saveImportProfile = (p: MappingProfile) => setImportProfiles(prev => prev.some(x => x.id === p.id) ? prev.map(x => x.id === p.id ? p : x) : [...prev, p]);
+  const confirmImport = () => {
+    if (!importing) return;
+    const { plan } = importing;
+    if (!plan) return;
+    commitInventory(applyImport(inventory, plan), { source: "import", note: importing.fileName });
+    setImporting(null);
+    const added = plan.filter(r => r.status === "new").length, updated = plan.filter(r => r.status === "updated").length, invalid = plan.filter(r => r.status === "invalid").length;
+    toast.success(`นำเข้าแล้ว: ใหม่ ${added} · อัปเดต ${updated}` + (invalid ? ` · ข้าม ${invalid} แถวที่ผิดพลาด` : ""));
   };
 
   const clearAll = () => {
     if (!confirm("ล้างข้อมูลทั้งหมด (คลัง & สเปคที่เลือก)?")) return;
-    setInventory(DEMO_DATA); setBuild({ base: {}, addons: [] }); toast.message("รีเซ็ตเป็นข้อมูลตัวอย่างแล้ว");
+    commitInventory(DEMO_DATA, { source: "manual", note: "รีเซ็ตข้อมูลตัวอย่าง" }); if (!sold) setBuild({ base: {}, addons: [] }); toast.message("รีเซ็ตเป็นข้อมูลตัวอย่างแล้ว");
   };
 
-  const selectBase = (cat: BaseCategory, product: Product | null) => {
-    setBuild(prev => ({ ...prev, base: { ...prev.base, [cat]: product || undefined } }));
+  // null clears the category; single-item categories are replaced, multi-item ones get another entry (or +1 qty)
+  const selectBase = (cat: BaseCategory, product: Product | null): boolean => {
+    if (!product) { setBuild(prev => ({ ...prev, base: { ...prev.base, [cat]: undefined } })); return true; }
+    const max = maxQtyOf(categories, cat);
+    if (max > 1 && categoryQty(build.base, cat) >= max) { toast.error(`${cat} เลือกได้สูงสุด ${max} ชิ้น`); return false; }
+    setBuild(prev => {
+      const entries = own(prev.base, cat) || [];
+      if (max <= 1) return { ...prev, base: { ...prev.base, [cat]: [{ id: uid(), product, qty: 1 }] } };
+      const existing = entries.find(e => e.product.id === product.id);
+      const next = existing ? entries.map(e => e === existing ? { ...e, qty: e.qty + 1 } : e) : [...entries, { id: uid(), product, qty: 1 }];
+      return { ...prev, base: { ...prev.base, [cat]: next } };
+    });
+    return true;
+  };
+  const updateBaseQty = (cat: BaseCategory, id: string, qty: number) => {
+    const others = categoryQty(build.base, cat) - ((own(build.base, cat) || []).find(e => e.id === id)?.qty || 0);
+    const max = maxQtyOf(categories, cat);
+    if (others + qty > max) { toast.error(`${cat} เลือกได้สูงสุด ${max} ชิ้น`); qty = Math.max(1, max - others); }
+    setBuild(prev => ({ ...prev, base: { ...prev.base, [cat]: (own(prev.base, cat) || []).map(e => e.id === id ? { ...e, qty } : e) } }));
   };
+  const swapBase = (cat: BaseCategory, entryId: string, product: Product) => setBuild(prev => ({ ...prev, base: replaceEntry(prev.base, { cat, entryId }, product) }));
+  // Scanned products land in their BasePicker slot, everything else becomes an add-on line
+  const handleScan = (code: string) => {
+    const p = findByCode(inventory, code);
+    if (!p) { toast.error(`ไม่พบสินค้ารหัส ${code}`); return; }
+    if (p.stock <= 0) toast.warning(`${p.name} สต็อกหมด`);
+    if (isBaseCategory(categories, p.category)) { if (selectBase(p.category as BaseCategory, p)) toast.success(`สแกน: ${p.name} → ${p.category}`); }
+    else { addAddon(p, 1); toast.success(`สแกน: ${p.name} → Option`); }
+  };
+  useBarcodeScanner(scanMode, handleScan);
+  const removeBase = (cat: BaseCategory, id: string) => setBuild(prev => ({ ...prev, base: { ...prev.base, [cat]: (own(prev.base, cat) || []).filter(e => e.id !== id) } }));
   const addAddon = (product: Product, qty: number) => {
     setBuild(prev => {
       const existing = prev.addons.find(a => a.product.id === product.id);
@@ -895,23 +3621,153 @@ export default function App(){
   const updateAddonQty = (id: string, qty: number) => setBuild(prev => ({ ...prev, addons: prev.addons.map(a => a.id===id ? { ...a, qty } : a) }));
   const removeAddon = (id: string) => setBuild(prev => ({ ...prev, addons: prev.addons.filter(a => a.id!==id) }));
 
-  const resetSpec = () => { setBuild({ base: {}, addons: [] }); try { (window as any).scrollTo({ top: 0, behavior: 'smooth' }); } catch {} ; toast.message('รีเซ็ตสเปคเรียบร้อย'); };
+  const openBuild = (id: string) => { setActiveBuildId(id); const b = builds.find(x => x.id === id); if (b) toast.message(`เปิดสเปค: ${b.name}`); };
+  const createBuild = () => {
+    const b = newSavedBuild(`สเปคใหม่ ${builds.length + 1}`);
+    setBuilds(prev => [b, ...prev]); setActiveBuildId(b.id); toast.success("สร้างสเปคใหม่แล้ว");
+  };
+  const duplicateBuild = (id: string) => {
+    const src = builds.find(b => b.id === id); if (!src) return;
+    const copy = { ...newSavedBuild(`${src.name} (สำเนา)`, JSON.parse(JSON.stringify(src.build)) as BuildState), customer: src.customer, note: src.note };
+    setBuilds(prev => [copy, ...prev]); setActiveBuildId(copy.id); toast.success("ทำสำเนาสเปคแล้ว");
+  };
+  const updateBuildMeta = (id: string, meta: Pick<SavedBuild,"name"|"customer"|"note">) => {
+    setBuilds(prev => prev.map(b => b.id === id ? { ...b, ...meta, updatedAt: Date.now() } : b)); toast.success("บันทึกข้อมูลสเปคแล้ว");
+  };
+  const deleteBuild = (id: string) => {
+    const rest = builds.filter(b => b.id !== id);
+    const next = rest.length ? rest : [newSavedBuild("สเปคใหม่")];
+    setBuilds(next);
+    if (id === activeBuild?.id) setActiveBuildId(next[0].id);
+    toast.success("ลบสเปคแล้ว");
+  };
+
+  // Validates every line against live stock first, then decrements inventory in a single update
+  const closeSale = (): StockIssue[] => {
+    if (!activeBuild || activeBuild.saleId) { toast.error("สเปคนี้ปิดการขายไปแล้ว"); return []; }
+    const lines = saleLines(build, tier);
+    if (!lines.length) { toast.error("ยังไม่ได้เลือกสินค้า"); return []; }
+    const issues = checkSaleStock(lines, inventory);
+    if (issues.length) { toast.error(`ปิดการขายไม่ได้: สต็อกไม่พอ ${issues.length} รายการ`); return issues; }
+
+    const t = calcTotals(build, pricing, tier, promos);
+    const sale: SaleRecord = {
+      id: uid(), buildId: activeBuild.id, buildName: activeBuild.name, customer: activeBuild.customer, soldAt: Date.now(),
+      lines, pricing: { ...pricing }, tier, promotions: promos, subtotal: t.subtotal, discount: t.discount, vat: t.vat, total: t.total, costTotal: t.costTotal, profit: t.profit,
+    };
+    const qtyById = new Map(lines.map(l => [l.productId, l.qty]));
+    commitInventory(inventory.map(p => qtyById.has(p.id) ? { ...p, stock: p.stock - (qtyById.get(p.id) || 0) } : p), { source: "sale", note: activeBuild.name });
+    setSales(prev => [sale, ...prev]);
+    setBuilds(prev => prev.map(b => b.id === activeBuild.id ? { ...b, saleId: sale.id, soldAt: sale.soldAt } : b));
+    toast.success(`ปิดการขายแล้ว ${baht(sale.total)}`);
+    return [];
+  };
+
+  const [quoting, setQuoting] = useState(false);
+  const issueQuotation = (customer: QuoteCustomer, validDays: number) => {
+    if (!activeBuild) return;
+    const issuedAt = Date.now();
+    const { no, counters: next } = nextDocNo(counters, "quotation", shop.quotePrefix, issuedAt);
+    const quotation: Quotation = { no, issuedAt, validDays, customer, build: JSON.parse(JSON.stringify(shownBuild)) as BuildState, pricing: { ...shownPricing }, tier, promotions: promos, plans: paymentPlans.filter(p => p.enabled) };
+    setCounters(next);
+    setBuilds(prev => prev.map(b => b.id === activeBuild.id ? { ...b, quotation, customer: b.customer || customer.name, updatedAt: issuedAt } : b));
+    setQuoting(false);
+    toast.success(`ออกใบเสนอราคาเลขที่ ${no} แล้ว`);
+    openPrintWindow(quotationHtml(quotation, shop));
+  };
+
+  const [invoicing, setInvoicing] = useState(false);
+  const activeInvoice = documents.find(d => d.buildId === activeBuild?.id && !d.voidedAt);
+  const issueInvoice = (customer: QuoteCustomer) => {
+    if (!activeBuild || activeInvoice) return;
+    // Only a closed sale is invoiced, exactly as it was recorded, so the document can't drift from an editable build
+    if (!sale) { toast.error("ต้องปิดการขายก่อนจึงจะออกใบกำกับภาษีได้"); return; }
+    const issuedAt = Date.now();
+    const { no, counters: next } = nextDocNo(counters, "invoice", shop.invoicePrefix, issuedAt);
+    const doc: TaxDocument = { id: uid(), no, issuedAt, buildId: activeBuild.id, buildName: activeBuild.name, customer, build: JSON.parse(JSON.stringify(shownBuild)) as BuildState, pricing: { ...sale.pricing }, tier: sale.tier, promotions: sale.promotions };
+    setCounters(next);
+    setDocuments(prev => [doc, ...prev]);
+    setInvoicing(false);
+    toast.success(`ออกเอกสารเลขที่ ${no} แล้ว`);
+    openPrintWindow(taxDocumentHtml(doc, shop, ["original", "copy"]));
+  };
+  const voidDocument = (id: string, reason: string) => {
+    setDocuments(prev => prev.map(d => d.id === id && !d.voidedAt ? { ...d, voidedAt: Date.now(), voidReason: reason } : d));
+    toast.success("ยกเลิกเอกสารแล้ว (เลขที่เดิมยังคงอยู่ในรายการ)");
+  };
+
+  const shareBuild = async () => {
+    if (!activeBuild) return;
+    const compat = checkCompatibility(build.base, rules, power, categories);
+    const url = `${window.location.origin}${window.location.pathname}${SHARE_PREFIX}${await encodeShare(toSharedBuild({ ...activeBuild, build: shownBuild, tier }, shownPricing, promos, compat))}`;
+    try { await navigator.clipboard.writeText(url); toast.success("คัดลอกลิงก์สเปคแล้ว (ไม่แสดงต้นทุน/กำไร)"); }
+    catch { window.prompt("คัดลอกลิงก์สเปค", url); }
+  };
+
+  // Sold builds are a record of what was sold, so they are not reconciled against later inventory edits
+  const drift = useMemo(()=>activeBuild?.soldAt ? [] : [...linkPriceDrift(build, activeBuild?.linkPrices, tier), ...detectBuildDrift(build, inventory)], [build, inventory, activeBuild?.soldAt, activeBuild?.linkPrices, tier]);
+  const acceptDrift = (items: BuildDrift[]) => {
+    if (!activeBuild || soldLocked()) return;
+    const seen = new Set(items.filter(d => d.fromLink).map(d => d.slot.id));
+    if (seen.size) setBuilds(prev => prev.map(b => b.id === activeBuild.id && b.linkPrices ? { ...b, linkPrices: Object.fromEntries(Object.entries(b.linkPrices).filter(([id]) => !seen.has(id))) } : b));
+    const updates = items.filter(d => !d.fromLink);
+    if (updates.length) setBuild(prev => applyDrift(prev, updates), `อัปเดตตามคลัง ${updates.length} รายการ`);
+    toast.success(`อัปเดตสเปค ${items.length} รายการ`);
+  };
+
+  // Generated builds open as a new saved build so the one on the counter is not overwritten
+  const loadGeneratedBuild = (name: string, base: BaseSelection) => {
+    const b = newSavedBuild(name, { base, addons: [] });
+    setBuilds(prev => [b, ...prev]); setActiveBuildId(b.id); toast.success(`โหลด "${name}" เข้าแท็บจัดสเปคแล้ว`);
+  };
+
+  const resetSpec = () => { if (soldLocked()) return; setBuild({ base: {}, addons: [] }, "รีเซ็ตสเปค"); try { (window as any).scrollTo({ top: 0, behavior: 'smooth' }); } catch {} ; toast.message('รีเซ็ตสเปคเรียบร้อย'); };
 
-  const baseTotal = Object.values(build.base).reduce((s,p)=>s+(p?.price||0),0);
-  const addonTotal = build.addons.reduce((s,a)=>s+a.product.price*a.qty,0);
-  const grandTotal = baseTotal + addonTotal;
 
   const socketOptions = useMemo(()=>Array.from(new Set(inventory.map(p=>p.attributes?.socket).filter(Boolean))), [inventory]) as string[];
   const ramTypeOptions = useMemo(()=>Array.from(new Set(inventory.map(p=>p.attributes?.ramType).filter(Boolean))), [inventory]) as string[];
   const formFactorOptions = useMemo(()=>Array.from(new Set(inventory.map(p=>p.attributes?.formFactor).filter(Boolean))), [inventory]) as string[];
   const storageIfOptions = useMemo(()=>Array.from(new Set(inventory.flatMap(p=>(p.attributes?.storage||[])).filter(Boolean))), [inventory]) as string[];
+  // Registry fields flagged as filters; values come from the field's options, or from stock on hand for free-form fields
+  const categoryFilters = useMemo(()=>categories.filter(c => c.kind==="base").flatMap(c => c.fields.filter(f => f.filter).map(field => {
+    const values = field.options?.length ? field.options : Array.from(new Set(inventory.filter(p => p.category===c.name).flatMap(p => isMissing(p.attributes?.[field.key]) ? [] : asList(p.attributes[field.key])))).sort((a,b)=>a.localeCompare(b, undefined, { numeric: true }));
+    return { cat: c.name, field, values };
+  })).filter(x => x.values.length), [categories, inventory]);
+  const setCategoryFilter = (cat: BaseCategory, key: string, value?: string) => setFilters(f => {
+    const forCat = { ...(own(f.byCategory, cat) || {}) };
+    if (value) forCat[key] = value; else delete forCat[key];
+    return { ...f, byCategory: { ...f.byCategory, [cat]: forCat } };
+  });
+
+  // Undo / redo moves through history: steps < 0 go back, steps > 0 forward. Filters are restored as they were,
+  // so Smart Sync skips the selection change it would otherwise react to.
+  const skipSync = useRef(false);
+  const moveHistory = (steps: number) => {
+    if (!activeBuild || !steps || soldLocked()) return;
+    let h = history, cur: BuildSnapshot = { build, filters }, label = "";
+    for (let i = 0; i < Math.abs(steps); i++) {
+      const r = steps < 0 ? undoStep(h, cur) : redoStep(h, cur);
+      if (!r) break;
+      h = r.history; cur = r.restore; label = r.label;
+    }
+    if (!label) return;
+    const id = activeBuild.id;
+    skipSync.current = cur.build.base !== build.base;
+    buildRef.current = cur.build;
+    setHistories(all => ({ ...all, [id]: h }));
+    setBuilds(all => all.map(b => b.id === id ? { ...b, build: cur.build, updatedAt: Date.now() } : b));
+    setFilters(cur.filters);
+    toast.message(steps < 0 ? `ย้อนกลับ: ${label}` : `ทำซ้ำ: ${label}`);
+  };
+  useUndoRedoKeys(() => moveHistory(-1), () => moveHistory(1));
 
   useEffect(()=>{
+    if (skipSync.current) { skipSync.current = false; return; }
     if (!smartSync) return;
-    const next = deriveFiltersFromSelection(build.base, {});
-    setFilters(next);
+    const next = deriveFiltersFromSelection(build.base, {}, power);
+    setFilters(f => ({ ...next, byCategory: f.byCategory }));
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [build.base, smartSync]);
+  }, [build.base, smartSync, power]);
 
   return (
     <div className="p-4 md:p-8 max-w-7xl mx-auto">
@@ -926,6 +3782,11 @@ export default function App(){
       <div className="mb-5 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
         <div className="text-sm text-slate-600">กด <span className="px-2 py-1 rounded bg-slate-200 font-mono">Ctrl/⌘</span> + <span className="px-2 py-1 rounded bg-slate-200 font-mono">K</span> เพื่อค้นหาอย่างรวดเร็ว</div>
         <div className="flex items-center gap-2">
+          <Input value={operator} onChange={(e)=>setOperator(e.target.value)} placeholder="ชื่อผู้ใช้งาน" title="บันทึกในประวัติการแก้ไขคลังสินค้า" className="w-36"/>
+          {activeBuild && <div className="text-sm text-slate-600 mr-1">สเปคที่ใช้งาน: <span className="font-medium text-slate-900">{activeBuild.name}</span>{activeBuild.customer ? ` — ${activeBuild.customer}` : ""}</div>}
+          <Button variant="secondary" onClick={()=>setScanMode(m=>!m)} className={scanMode ? "bg-emerald-600 hover:bg-emerald-700 text-white" : ""} title="รับรหัสจากเครื่องสแกนบาร์โค้ดได้ทุกหน้าจอ (ยกเว้นขณะพิมพ์ในช่องกรอก)"><ScanBarcode className="w-4 h-4 mr-2"/> โหมดสแกน: {scanMode ? "เปิด" : "ปิด"}</Button>
+          <Button variant="secondary" onClick={()=>moveHistory(-1)} disabled={sold || !history.past.length} className={sold || !history.past.length ? "opacity-50 cursor-not-allowed" : ""} title={history.past.length ? `ย้อนกลับ: ${history.past[history.past.length-1].label} (Ctrl/⌘+Z)` : "ย้อนกลับ (Ctrl/⌘+Z)"}><Undo2 className="w-4 h-4"/></Button>
+          <Button variant="secondary" onClick={()=>moveHistory(1)} disabled={sold || !history.future.length} className={sold || !history.future.length ? "opacity-50 cursor-not-allowed" : ""} title={history.future.length ? `ทำซ้ำ: ${history.future[0].label} (Ctrl/⌘+Shift+Z)` : "ทำซ้ำ (Ctrl/⌘+Shift+Z)"}><Redo2 className="w-4 h-4"/></Button>
           <Button variant="secondary" onClick={resetSpec}>รีเซ็ตสเปค</Button>
           <Button onClick={()=>setSearchOpen(true)}>ค้นหาสินค้า (⌘K)</Button>
         </div>
@@ -934,8 +3795,14 @@ export default function App(){
       <Tabs defaultValue="builder" className="space-y-4">
         <TabsList>
           <TabsTrigger value="builder">จัดสเปค</TabsTrigger>
+          <TabsTrigger value="builds">สเปคที่บันทึก</TabsTrigger>
+          <TabsTrigger value="generator">จัดสเปคอัตโนมัติ</TabsTrigger>
           <TabsTrigger value="inventory">คลังสินค้า</TabsTrigger>
           <TabsTrigger value="summary">สรุปผล</TabsTrigger>
+          <TabsTrigger value="rules">กฎความเข้ากันได้</TabsTrigger>
+          <TabsTrigger value="promotions">โปรโมชัน</TabsTrigger>
+          <TabsTrigger value="categories">หมวดสินค้า</TabsTrigger>
+          <TabsTrigger value="shop">ตั้งค่าร้าน</TabsTrigger>
         </TabsList>
 
         <TabsContent value="builder" className="space-y-4">
@@ -945,8 +3812,8 @@ export default function App(){
             <CardContent className="space-y-3">
               <div className="flex flex-wrap items-center gap-2">
                 <div className="text-sm text-muted-foreground mr-1">หมวดที่จำเป็นต้องเลือก:</div>
-                {BASE_CATEGORIES.map(c=>{
-                  const active = (required as BaseCategory[]).includes(c);
+                {baseCategoryNames(categories).map(c=>{
+                  const active = required.includes(c);
                   return <Button key={c} variant="secondary" onClick={()=>{
                     const next = active ? required.filter(x=>x!==c) : [...required, c];
                     setRequired(next as BaseCategory[]);
@@ -957,7 +3824,12 @@ export default function App(){
               <div className="flex flex-wrap items-center gap-2">
                 <div className="text-sm text-muted-foreground mr-1">Smart Sync (ซิงก์ตัวกรองตามชิ้นส่วนที่เลือก):</div>
                 <Button variant="secondary" onClick={()=>{ setSmartSync(!smartSync); toast.message(!smartSync ? 'เปิด Smart Sync' : 'ปิด Smart Sync'); }}>{smartSync ? "เปิดอยู่" : "ปิดอยู่"}</Button>
-                <Button variant="secondary" onClick={()=>{ setFilters(deriveFiltersFromSelection(build.base, {})); toast.message('ซิงก์ตัวกรองแล้ว'); }}>ซิงก์ตอนนี้</Button>
+                <Button variant="secondary" onClick={()=>{ setFilters(f => ({ ...deriveFiltersFromSelection(build.base, {}, power), byCategory: f.byCategory })); toast.message('ซิงก์ตัวกรองแล้ว'); }}>ซิงก์ตอนนี้</Button>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <div className="text-sm text-muted-foreground mr-1">เผื่อกำลังไฟ PSU (headroom):</div>
+                <Input type="number" min={0} max={100} className="w-24" value={power.headroomPercent} onChange={e=>setPower({ ...power, headroomPercent: Math.max(0, Number(e.target.value||0)) })} />
+                <span className="text-sm text-muted-foreground">%</span>
               </div>
 
               {/* Attribute Filters */}
@@ -996,28 +3868,71 @@ export default function App(){
                   </div>
                   {filters.storageInterface && <div className="mt-1"><ClearChip label={`Storage: ${filters.storageInterface}`} onClear={()=>setFilters({...filters, storageInterface: undefined})}/></div>}
                 </div>
+                {categoryFilters.map(({ cat, field, values }) => {
+                  const active = own(filters.byCategory, cat)?.[field.key];
+                  return (
+                    <div key={`${cat}.${field.key}`} className="space-y-1">
+                      <Label>{field.label} ({cat})</Label>
+                      <div className="flex flex-wrap gap-2">
+                        {values.map(v=>(<Chip key={v} active={active===v} onClick={()=>setCategoryFilter(cat, field.key, active===v ? undefined : v)}>{v}{field.unit ? ` ${field.unit}` : ""}</Chip>))}
+                      </div>
+                      {active && <div className="mt-1"><ClearChip label={`${field.label}: ${active}`} onClear={()=>setCategoryFilter(cat, field.key)}/></div>}
+                    </div>
+                  );
+                })}
               </div>
             </CardContent>
           </Card>
 
+          <BuildDriftPanel drift={drift} onAccept={acceptDrift} />
+
+          <fieldset disabled={sold} className={`space-y-4 min-w-0 ${sold ? "opacity-60" : ""}`}>
+          <BuildHistoryPanel history={history} onUndo={()=>moveHistory(-1)} onRedo={()=>moveHistory(1)} onJump={moveHistory} />
+
           <BasePicker
             inventory={inventory}
+            categories={categories}
             selection={build.base}
             onSelect={selectBase}
+            onSwap={swapBase}
+            updateQty={updateBaseQty}
+            removeEntry={removeBase}
             sortMode={sortMode}
             onChangeSort={setSortMode}
             required={required}
             filters={filters}
+            rules={rules}
+            power={power}
           />
 
           <AddonsPicker
             inventory={inventory}
+            categories={categories}
             addons={build.addons}
             addAddon={addAddon}
             updateQty={updateAddonQty}
             removeAddon={removeAddon}
             sortMode={sortMode}
           />
+          </fieldset>
+        </TabsContent>
+
+        <TabsContent value="builds" className="space-y-4">
+          <BuildLibrary
+            builds={builds}
+            activeId={activeBuild?.id || ""}
+            onOpen={openBuild}
+            onCreate={createBuild}
+            onDuplicate={duplicateBuild}
+            onUpdateMeta={updateBuildMeta}
+            onDelete={deleteBuild}
+          />
+          <SalesHistory sales={sales} />
+          <TaxDocumentList documents={documents} shop={shop} onVoid={voidDocument} />
+        </TabsContent>
+
+        <TabsContent value="generator" className="space-y-4">
+          <BuildGenerator inventory={inventory} categories={categories} required={required} rules={rules} power={power} onLoad={loadGeneratedBuild} />
         </TabsContent>
 
         <TabsContent value="inventory" className="space-y-4">
@@ -1037,27 +3952,84 @@ export default function App(){
                   </SelectContent>
                 </Select>
                 <div className="ml-auto flex items-center gap-2">
-                  <input ref={fileRef} type="file" accept=".xlsx,.xls,.csv" className="hidden" onChange={(e)=>{ const f=e.target.files?.[0]; if(f) handleImport(f); }}/>
+                  <input ref={fileRef} type="file" accept=".xlsx,.xls,.csv" className="hidden" onChange={(e)=>{ const f=e.target.files?.[0]; if(f) handleImport(f); e.target.value=""; }}/>
                   <Button variant="secondary" onClick={()=>fileRef.current?.click()}><FileUp className="w-4 h-4 mr-2"/> นำเข้า Excel/CSV</Button>
+                  <Button variant="secondary" onClick={()=>exportInventory(inventory, "xlsx")}><Download className="w-4 h-4 mr-2"/> ส่งออก Excel</Button>
+                  <Button variant="secondary" onClick={()=>exportInventory(inventory, "csv")}><Download className="w-4 h-4 mr-2"/> ส่งออก CSV</Button>
+                  <Button variant="secondary" onClick={()=>setHistoryFor("all")}><History className="w-4 h-4 mr-2"/> ประวัติการแก้ไข</Button>
                   <Button onClick={()=>setEditing({} as Product)}><Plus className="w-4 h-4 mr-2"/> เพิ่มสินค้า</Button>
                   <Button variant="destructive" onClick={clearAll}><Trash2 className="w-4 h-4 mr-2"/> รีเซ็ตข้อมูลตัวอย่าง</Button>
                 </div>
               </div>
-              <InventoryTable items={sortedFiltered} onEdit={setEditing} onDelete={deleteProduct} />
+              <InventoryTable items={sortedFiltered} categories={categories} onEdit={setEditing} onDelete={deleteProduct} onHistory={setHistoryFor} />
             </CardContent>
           </Card>
 
+          <StockAlerts inventory={inventory} sales={sales} onEdit={setEditing} />
+
           <Dialog open={!!editing} onOpenChange={(o)=>{ if(!o) setEditing(null); }}>
             <DialogContent className="sm:max-w-[720px] relative">
               <DialogHeader><DialogTitle>{editing?.id ? "แก้ไขสินค้า" : "เพิ่มสินค้า"}</DialogTitle></DialogHeader>
               <button onClick={()=>setEditing(null)} className="absolute right-3 top-3 p-1.5 rounded-full hover:bg-slate-100" aria-label="ปิด"><X className="w-5 h-5"/></button>
-              {editing && <ProductEditor initial={editing||undefined} onSave={(p)=>{ saveProduct(p); setEditing(null); }} />}
+              {editing && <ProductEditor initial={editing||undefined} inventory={inventory} categories={categories} onSave={(p)=>{ saveProduct(p); setEditing(null); }} />}
+            </DialogContent>
+          </Dialog>
+
+          <Dialog open={!!historyFor} onOpenChange={(o)=>{ if(!o) setHistoryFor(null); }}>
+            <DialogContent className="sm:max-w-[760px] relative">
+              <DialogHeader><DialogTitle>{historyFor && historyFor !== "all" ? `ประวัติการแก้ไข — ${historyFor.name}` : "ประวัติการแก้ไขคลังสินค้า"}</DialogTitle></DialogHeader>
+              <button onClick={()=>setHistoryFor(null)} className="absolute right-3 top-3 p-1.5 rounded-full hover:bg-slate-100" aria-label="ปิด"><X className="w-5 h-5"/></button>
+              {historyFor && <InventoryHistory key={historyFor === "all" ? "all" : historyFor.id} entries={audit} productId={historyFor === "all" ? undefined : historyFor.id} onUndo={undoChange} />}
+            </DialogContent>
+          </Dialog>
+
+          <Dialog open={!!importing} onOpenChange={(o)=>{ if(!o) setImporting(null); }}>
+            <DialogContent className="sm:max-w-[860px] relative">
+              <DialogHeader><DialogTitle>{importing?.plan ? "ตรวจสอบก่อนนำเข้า" : `จับคู่คอลัมน์ — ${importing?.fileName ?? ""}`}</DialogTitle></DialogHeader>
+              <button onClick={()=>setImporting(null)} className="absolute right-3 top-3 p-1.5 rounded-full hover:bg-slate-100" aria-label="ปิด"><X className="w-5 h-5"/></button>
+              {importing && !importing.plan && (
+                <ImportMapper wb={importing.wb} schema={schema} mapping={importing.mapping} setMapping={(mapping)=>setImporting({ ...importing, mapping })}
+                  profiles={importProfiles} onSaveProfile={saveImportProfile} onDeleteProfile={(id)=>setImportProfiles(prev => prev.filter(p => p.id !== id))}
+                  onNext={previewImport} onCancel={()=>setImporting(null)} />
+              )}
+              {importing?.plan && <ImportPreview fileName={importing.fileName} plan={importing.plan} onConfirm={confirmImport} onBack={()=>setImporting({ ...importing, plan: undefined })} />}
             </DialogContent>
           </Dialog>
         </TabsContent>
 
         <TabsContent value="summary" className="space-y-4">
-          <Summary build={build} onReset={resetSpec} pricing={pricing} setPricing={setPricing} required={required} />
+          <Summary key={activeBuild?.id} build={shownBuild} tier={tier} setTier={setTier} plans={paymentPlans} promptPayId={shop.promptPayId} promos={promos} coupons={coupons} onAddCoupon={addCoupon} onRemoveCoupon={removeCoupon} onReset={resetSpec} pricing={shownPricing} setPricing={p => setPricing(sale ? { ...pricing, showCost: p.showCost } : p)} baseCategories={baseCategoryNames(categories)} required={required} soldAt={activeBuild?.soldAt} onCloseSale={closeSale} onShare={shareBuild} onQuote={()=>setQuoting(true)} onInvoice={()=>setInvoicing(true)} driftCount={drift.length} />
+          <Dialog open={invoicing && !!activeBuild} onOpenChange={setInvoicing}>
+            <DialogContent className="sm:max-w-[720px] relative">
+              <DialogHeader><DialogTitle>ใบกำกับภาษี / ใบเสร็จรับเงิน — {activeBuild?.name}</DialogTitle></DialogHeader>
+              <button onClick={()=>setInvoicing(false)} className="absolute right-3 top-3 p-1.5 rounded-full hover:bg-slate-100" aria-label="ปิด"><X className="w-5 h-5"/></button>
+              {invoicing && activeBuild && <TaxInvoiceDialog saved={activeBuild} existing={activeInvoice} shop={shop} onIssue={issueInvoice} onClose={()=>setInvoicing(false)} />}
+            </DialogContent>
+          </Dialog>
+          <Dialog open={quoting && !!activeBuild} onOpenChange={setQuoting}>
+            <DialogContent className="sm:max-w-[720px] relative">
+              <DialogHeader><DialogTitle>ใบเสนอราคา — {activeBuild?.name}</DialogTitle></DialogHeader>
+              <button onClick={()=>setQuoting(false)} className="absolute right-3 top-3 p-1.5 rounded-full hover:bg-slate-100" aria-label="ปิด"><X className="w-5 h-5"/></button>
+              {quoting && activeBuild && <QuotationDialog saved={activeBuild} shop={shop} onIssue={issueQuotation} onClose={()=>setQuoting(false)} />}
+            </DialogContent>
+          </Dialog>
+        </TabsContent>
+
+        <TabsContent value="rules" className="space-y-4">
+          <RulesEditor rules={rules} setRules={setRules} inventory={inventory} categories={categories} />
+        </TabsContent>
+
+        <TabsContent value="promotions" className="space-y-4">
+          <PromotionsEditor promotions={promotions} setPromotions={setPromotions} inventory={inventory} categories={categories} />
+        </TabsContent>
+
+        <TabsContent value="categories" className="space-y-4">
+          <CategoryRegistryEditor categories={categories} setCategories={setCategories} inventory={inventory} onDelete={deleteCategory} />
+        </TabsContent>
+
+        <TabsContent value="shop" className="space-y-4">
+          <ShopSettingsEditor shop={shop} setShop={setShop} counters={counters} />
+          <PaymentPlansEditor plans={paymentPlans} setPlans={setPaymentPlans} />
         </TabsContent>
       </Tabs>
 
@@ -1079,7 +4051,7 @@ export default function App(){
               {(() => {
                 const q = searchText.trim().toLowerCase();
                 const results = sortProducts(
-                  inventory.filter(p => !q || [p.name, p.category, JSON.stringify(p.attributes)].join(" ").toLowerCase().includes(q)),
+                  inventory.filter(p => !q || [p.name, p.category, p.sku, p.barcode, JSON.stringify(p.attributes)].join(" ").toLowerCase().includes(q)),
                   sortMode
                 );
                 if (results.length === 0) return <div className="px-4 py-3 text-muted-foreground">ไม่พบสินค้า</div>;
@@ -1091,7 +4063,7 @@ export default function App(){
                     </div>
                     <div className="flex items-center gap-2">
                       <div className="text-sm">{baht(p.price)}</div>
-                      {((BASE_CATEGORIES as readonly string[]).includes(p.category)) ? (
+                      {isBaseCategory(categories, p.category) ? (
                         <Button onClick={()=>{ selectBase(p.category as BaseCategory, p); toast.success(`ใส่ ${p.category} แล้ว`); setSearchOpen(false); }}>ใส่ใน {p.category}</Button>
                       ) : (
                         <Button onClick={()=>{ addAddon(p, 1); toast.success(`เพิ่ม ${p.name} (Option)`); setSearchOpen(false); }}>เพิ่มเป็น Option</Button>
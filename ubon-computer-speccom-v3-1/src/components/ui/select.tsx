@@ -3,10 +3,11 @@ import React, { useEffect, useRef, useState } from 'react'
 type SelectProps = {
   value?: string
   onValueChange?: (v: string) => void
+  disabled?: boolean
   children?: React.ReactNode
 }
 
-export const Select: React.FC<SelectProps> = ({ value, onValueChange, children }) => {
+export const Select: React.FC<SelectProps> = ({ value, onValueChange, disabled, children }) => {
   const [open, setOpen] = useState(false)
   const ref = useRef<HTMLDivElement>(null)
 
@@ -81,10 +82,10 @@ export const Select: React.FC<SelectProps> = ({ value, onValueChange, children }
 
   return (
     <div className="relative w-full" ref={ref}>
-      <button type="button" className="border rounded-xl px-3 py-2 w-full text-left" onClick={() => setOpen(o => !o)}>
+      <button type="button" disabled={disabled} className={`border rounded-xl px-3 py-2 w-full text-left ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`} onClick={() => setOpen(o => !o)}>
         {display}
       </button>
-      {open && (
+      {open && !disabled && (
         <div className="absolute z-50 mt-1 w-full bg-white border rounded-xl max-h-56 overflow-auto shadow">
           {renderDropdown(children)}
         </div>
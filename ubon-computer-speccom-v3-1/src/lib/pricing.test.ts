@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { computeTotals, divRound, installment, percentOf, toSatang, vatFromExclusive, vatFromInclusive, type PaymentPlan, type Pricing } from "./pricing";
+
+const pricing = (patch: Partial<Pricing> = {}): Pricing => ({ discountType: "none", discountValue: 0, vatEnabled: true, vatPercent: 7, vatMode: "exclusive", showCost: true, ...patch });
+
+describe("satang conversion and rounding", () => {
+  it("converts baht without float drift", () => {
+    expect(toSatang(1.005)).toBe(101);
+    expect(toSatang(0.1 + 0.2)).toBe(30);
+    expect(toSatang(19.99)).toBe(1999);
+    expect(toSatang(-2.675)).toBe(-268);
+    expect(toSatang(Number.NaN)).toBe(0);
+  });
+
+  it("rounds half away from zero", () => {
+    expect(divRound(5, 2)).toBe(3);
+    expect(divRound(4, 3)).toBe(1);
+    expect(divRound(-5, 2)).toBe(-3);
+    expect(percentOf(50, 7)).toBe(4); // 3.5 satang
+    expect(percentOf(1999, 7.5)).toBe(150); // 149.925
+  });
+
+  it("backs VAT out of an inclusive price", () => {
+    expect(vatFromInclusive(10700, 7)).toBe(700);
+    expect(vatFromInclusive(100, 7)).toBe(7); // 6.54
+    expect(vatFromExclusive(10000, 7)).toBe(700);
+  });
+});
+
+describe("computeTotals", () => {
+  const lines = [{ price: 1000, cost: 800, qty: 2 }, { price: 499.5, cost: 300, qty: 1, addon: true }];
+
+  it("adds VAT on top of exclusive prices", () => {
+    const t = computeTotals(lines, pricing());
+    expect(t).toMatchObject({ baseTotal: 2000, addonTotal: 499.5, subtotal: 2499.5, netBeforeVAT: 2499.5, vat: 174.97, total: 2674.47 });
+  });
+
+  it("backs VAT out of inclusive prices and keeps the shelf total", () => {
+    const t = computeTotals([{ price: 1070, qty: 1 }, { price: 99, qty: 3 }], pricing({ vatMode: "inclusive" }));
+    expect(t.total).toBe(1367);
+    expect(t.vat).toBe(89.43);
+    expect(t.netBeforeVAT).toBe(1277.57);
+    expect(t.netBeforeVAT + t.vat).toBe(t.total);
+  });
+
+  it("ignores the mode when VAT is off", () => {
+    expect(computeTotals(lines, pricing({ vatEnabled: false, vatMode: "inclusive" }))).toMatchObject({ vat: 0, netBeforeVAT: 2499.5, total: 2499.5 });
+  });
+
+  it("applies percent and fixed discounts", () => {
+    expect(computeTotals(lines, pricing({ discountType: "percent", discountValue: 10 }))).toMatchObject({ discount: 249.95, netBeforeVAT: 2249.55, vat: 157.47, total: 2407.02 });
+    expect(computeTotals(lines, pricing({ discountType: "fixed", discountValue: 99.99 }))).toMatchObject({ discount: 99.99, netBeforeVAT: 2399.51 });
+  });
+
+  it("caps discounts at the amount due", () => {
+    expect(computeTotals(lines, pricing({ discountType: "fixed", discountValue: 5000 }))).toMatchObject({ discount: 2499.5, total: 0, margin: 0 });
+    expect(computeTotals(lines, pricing({ discountType: "percent", discountValue: 150 }))).toMatchObject({ discount: 2499.5, total: 0 });
+    expect(computeTotals(lines, pricing({ discountType: "fixed", discountValue: -100 })).discount).toBe(0);
+  });
+
+  it("takes promotions off before the global discount", () => {
+    const t = computeTotals(lines, pricing({ discountType: "percent", discountValue: 10, vatEnabled: false }), [499.5]);
+    expect(t).toMatchObject({ promoTotal: 499.5, discount: 200, total: 1800 });
+  });
+
+  it("computes profit and margin on the pre-VAT amount", () => {
+    const ex = computeTotals(lines, pricing());
+    expect(ex.costTotal).toBe(1900);
+    expect(ex.profit).toBe(599.5);
+    expect(ex.margin).toBeCloseTo(23.985, 3);
+
+    const inc = computeTotals([{ price: 1070, cost: 800, qty: 1 }], pricing({ vatMode: "inclusive" }));
+    expect(inc.profit).toBe(200);
+    expect(inc.margin).toBeCloseTo(20, 6);
+  });
+
+  it("treats a missing cost as zero", () => {
+    expect(computeTotals([{ price: 100, qty: 1 }], pricing()).costTotal).toBe(0);
+  });
+});
+
+describe("installment", () => {
+  const plan = (patch: Partial<PaymentPlan> = {}): PaymentPlan => ({ id: "p", name: "", enabled: true, months: 10, rateKind: "fee", ratePercent: 0, absorbedBy: "customer", minAmount: 0, ...patch });
+
+  it("splits a 0% plan evenly, putting the remainder in the last month", () => {
+    expect(installment(10000, plan())).toMatchObject({ charge: 0, payable: 10000, monthly: 1000, last: 1000 });
+    expect(installment(1000, plan({ months: 3 }))).toMatchObject({ payable: 1000, monthly: 333.34, last: 333.32 });
+  });
+
+  it("adds a fee or monthly interest when the customer pays it", () => {
+    expect(installment(20000, plan({ months: 3, ratePercent: 3 }))).toMatchObject({ charge: 600, payable: 20600, monthly: 6866.67, last: 6866.66, shopReceives: 20000 });
+    expect(installment(12000, plan({ months: 6, rateKind: "monthly", ratePercent: 0.89 }))).toMatchObject({ charge: 640.8, payable: 12640.8, monthly: 2106.8, last: 2106.8 });
+  });
+
+  it("takes an absorbed fee out of what the shop receives", () => {
+    expect(installment(30000, plan({ ratePercent: 6.5, absorbedBy: "shop" }))).toMatchObject({ charge: 1950, payable: 30000, monthly: 3000, shopReceives: 28050 });
+  });
+
+  it("is not eligible below the minimum amount", () => {
+    expect(installment(2999.99, plan({ minAmount: 3000 })).eligible).toBe(false);
+    expect(installment(3000, plan({ minAmount: 3000 })).eligible).toBe(true);
+    expect(installment(0, plan()).eligible).toBe(false);
+  });
+
+  it("never leaves an eligible plan with a zero or negative last month", () => {
+    expect(installment(0.05, plan())).toMatchObject({ eligible: false });
+    expect(installment(0.9, plan())).toMatchObject({ eligible: true, monthly: 0.09, last: 0.09 });
+    for (const total of [0.01, 0.1, 0.89, 0.91, 1, 1.01, 9.99]) {
+      const i = installment(total, plan());
+      if (i.eligible) expect(i.last).toBeGreaterThan(0);
+      else expect(i.last).toBeLessThanOrEqual(0);
+    }
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Money math for Summary, documents and sales — pure, no React.
+ * Everything is computed in integer satang (1 baht = 100 satang) and only converted back to baht at the end.
+ * Rounding rules:
+ * - Unit prices are rounded to the satang once, then multiplied by quantity (never rounded again).
+ * - Percentages (discount, VAT) round half away from zero, once per amount.
+ * - VAT-inclusive: VAT = gross × rate / (100 + rate); net = gross − VAT, so net + VAT is always the shelf total.
+ * - VAT-exclusive: VAT = net × rate / 100; total = net + VAT.
+ */
+export type Satang = number;
+export type VatMode = "exclusive" | "inclusive";
+
+export type Pricing = {
+  discountType: 'none'|'percent'|'fixed';
+  discountValue: number;
+  vatEnabled: boolean;
+  vatPercent: number;
+  vatMode?: VatMode; // missing = exclusive, as before the setting existed
+  showCost: boolean;
+};
+
+export type PriceLine = { price: number; cost?: number; qty: number; addon?: boolean };
+
+export type Totals = {
+  baseTotal: number;
+  addonTotal: number;
+  subtotal: number;
+  promoTotal: number;
+  discount: number;
+  afterDiscount: number; // what the customer pays before VAT is added (exclusive) or including VAT (inclusive)
+  netBeforeVAT: number;
+  vat: number;
+  total: number;
+  costTotal: number;
+  profit: number;
+  margin: number;
+};
+
+// "1.005e2" is exact where 1.005 * 100 is not
+export function toSatang(baht: number): Satang {
+  if (!Number.isFinite(baht)) return 0;
+  const shifted = String(baht).includes("e") ? baht * 100 : Number(`${baht}e2`);
+  return Math.sign(shifted) * Math.round(Math.abs(shifted));
+}
+export const fromSatang = (satang: Satang) => satang / 100;
+
+// Integer division rounding half away from zero; den must be positive
+export function divRound(num: number, den: number): Satang {
+  const q = Math.floor(Math.abs(num) / den), r = Math.abs(num) - q * den;
+  return Math.sign(num) * (r * 2 >= den ? q + 1 : q);
+}
+
+// Rates are held to four decimals (e.g. 7.5%) so the arithmetic stays in integers
+const rateUnits = (percent: number) => Math.round((percent || 0) * 10_000);
+const HUNDRED_PERCENT = rateUnits(100);
+
+export const percentOf = (amount: Satang, percent: number): Satang => divRound(amount * rateUnits(percent), HUNDRED_PERCENT);
+export const vatFromExclusive = (net: Satang, percent: number): Satang => percentOf(net, percent);
+export const vatFromInclusive = (gross: Satang, percent: number): Satang => divRound(gross * rateUnits(percent), HUNDRED_PERCENT + rateUnits(percent));
+
+export const lineAmount = (price: number, qty: number): Satang => toSatang(price) * qty;
+
+// Promotions come off first; the global discount then applies to what is left
+export function computeTotals(lines: PriceLine[], pricing: Pricing, promotions: number[] = []): Totals {
+  const sum = (xs: Satang[]) => xs.reduce((s, x) => s + x, 0);
+  const baseTotal = sum(lines.filter(l => !l.addon).map(l => lineAmount(l.price, l.qty)));
+  const addonTotal = sum(lines.filter(l => l.addon).map(l => lineAmount(l.price, l.qty)));
+  const subtotal = baseTotal + addonTotal;
+
+  const promoTotal = Math.min(subtotal, Math.max(0, sum(promotions.map(toSatang))));
+  const afterPromo = subtotal - promoTotal;
+  const discount = pricing.discountType==='percent' ? Math.min(afterPromo, Math.max(0, percentOf(afterPromo, pricing.discountValue))) :
+                   pricing.discountType==='fixed' ? Math.min(afterPromo, Math.max(0, toSatang(pricing.discountValue))) : 0;
+  const afterDiscount = afterPromo - discount;
+
+  const inclusive = pricing.vatMode === "inclusive";
+  const vat = !pricing.vatEnabled ? 0 : inclusive ? vatFromInclusive(afterDiscount, pricing.vatPercent) : vatFromExclusive(afterDiscount, pricing.vatPercent);
+  const netBeforeVAT = inclusive ? afterDiscount - vat : afterDiscount;
+  const total = netBeforeVAT + vat;
+
+  const costTotal = sum(lines.map(l => typeof l.cost === "number" ? lineAmount(l.cost, l.qty) : 0));
+  const profit = netBeforeVAT - costTotal;
+  const margin = netBeforeVAT > 0 ? (profit / netBeforeVAT) * 100 : 0;
+  return {
+    baseTotal: fromSatang(baseTotal), addonTotal: fromSatang(addonTotal), subtotal: fromSatang(subtotal),
+    promoTotal: fromSatang(promoTotal), discount: fromSatang(discount), afterDiscount: fromSatang(afterDiscount),
+    netBeforeVAT: fromSatang(netBeforeVAT), vat: fromSatang(vat), total: fromSatang(total),
+    costTotal: fromSatang(costTotal), profit: fromSatang(profit), margin,
+  };
+}
+
+// ===== Installments =====
+// rate is either a flat interest per month (card issuers quote "0.89% ต่อเดือน") or a one-off fee on the amount.
+// When the shop absorbs it the customer pays the cash price and the charge comes out of the shop's takings.
+export type PaymentPlan = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  months: number;
+  rateKind: "monthly" | "fee";
+  ratePercent: number;
+  absorbedBy: "customer" | "shop";
+  minAmount: number;
+};
+export type Installment = {
+  eligible: boolean;
+  charge: number;   // interest / fee in baht, whoever pays it
+  payable: number;  // what the customer pays over the whole term
+  monthly: number;  // first months; monthly is rounded up to the satang so the last month is never more
+  last: number;
+  shopReceives: number;
+};
+
+export function installment(total: number, plan: PaymentPlan): Installment {
+  const amount = toSatang(total), months = Math.max(1, Math.floor(plan.months || 1));
+  const charge = plan.rateKind === "monthly" ? percentOf(amount, (plan.ratePercent || 0) * months) : percentOf(amount, plan.ratePercent || 0);
+  const payable = plan.absorbedBy === "customer" ? amount + charge : amount;
+  const monthly = Math.ceil(payable / months), last = payable - monthly * (months - 1);
+  // Tiny amounts (a few satang over many months) round up so far that nothing is left for the last month
+  return {
+    eligible: amount > 0 && amount >= toSatang(plan.minAmount || 0) && last > 0,
+    charge: fromSatang(charge),
+    payable: fromSatang(payable),
+    monthly: fromSatang(monthly),
+    last: fromSatang(last),
+    shopReceives: fromSatang(plan.absorbedBy === "shop" ? amount - charge : amount),
+  };
+}
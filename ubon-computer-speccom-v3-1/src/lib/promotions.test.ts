@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { matchBundle } from "./promotions";
+
+type Line = { name: string; category: string; qty: number };
+type Cond = { category: string; contains?: string };
+const matches = (l: Line, c: Cond) => (!c.category || l.category === c.category) && (!c.contains || l.name.includes(c.contains));
+const qty = (l: Line) => l.qty;
+
+const cpu = { name: "AMD Ryzen 5 7600", category: "CPU", qty: 1 };
+const board = { name: "ASUS TUF B650-PLUS", category: "Motherboard", qty: 1 };
+const ram = { name: "Kingston Fury 16GB", category: "RAM", qty: 2 };
+
+describe("matchBundle", () => {
+  it("does not let a broad condition listed first take the line a specific one needs", () => {
+    const m = matchBundle<Cond, Line>([{ category: "" }, { category: "CPU", contains: "Ryzen" }], [cpu, board], matches, qty);
+    expect(m?.lines).toEqual([board, cpu]);
+    expect(m?.sets).toBe(1);
+  });
+
+  it("lets one merged line fill several conditions when its qty covers them", () => {
+    expect(matchBundle<Cond, Line>([{ category: "RAM" }, { category: "RAM" }], [ram], matches, qty)).toEqual({ lines: [ram, ram], sets: 1 });
+    expect(matchBundle<Cond, Line>([{ category: "RAM" }, { category: "RAM" }], [{ ...ram, qty: 1 }], matches, qty)).toBeNull();
+  });
+
+  it("counts complete sets and prefers the assignment with the most", () => {
+    const cpus = { ...cpu, qty: 3 }, boards = { ...board, qty: 2 };
+    expect(matchBundle<Cond, Line>([{ category: "CPU" }, { category: "Motherboard" }], [cpus, boards], matches, qty)?.sets).toBe(2);
+    const other = { name: "Intel Core i5", category: "CPU", qty: 1 }, four = { ...cpu, qty: 4 };
+    expect(matchBundle<Cond, Line>([{ category: "CPU" }, { category: "CPU" }], [other, four], matches, qty)).toEqual({ lines: [four, four], sets: 2 });
+  });
+
+  it("returns null when a condition has no line", () => {
+    expect(matchBundle<Cond, Line>([{ category: "GPU" }], [cpu], matches, qty)).toBeNull();
+    expect(matchBundle<Cond, Line>([], [cpu], matches, qty)).toBeNull();
+  });
+});
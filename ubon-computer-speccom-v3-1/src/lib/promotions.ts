@@ -0,0 +1,34 @@
+/**
+ * Bundle matching for promotions — pure, no React.
+ * Each condition of a bundle needs its own unit: a line can serve several conditions only if its qty covers them,
+ * so two identical sticks merged into one line still fill a "RAM + RAM" bundle.
+ */
+export type BundleMatch<L> = { lines: L[]; sets: number };
+
+// Conditions with the fewest candidate lines are placed first, then every assignment is tried and the one
+// giving the most complete sets wins (ties keep the first found). Bundles are a handful of conditions, so this stays small.
+export function matchBundle<C, L>(conditions: C[], lines: L[], matches: (line: L, condition: C) => boolean, qty: (line: L) => number): BundleMatch<L> | null {
+  if (!conditions.length) return null;
+  const candidates = conditions.map(c => lines.filter(l => matches(l, c)));
+  const order = conditions.map((_, i) => i).sort((a, b) => candidates[a].length - candidates[b].length);
+  const uses = new Map<L, number>(), picked: L[] = new Array(conditions.length);
+  let best: BundleMatch<L> | null = null;
+
+  const search = (k: number) => {
+    if (k === order.length) {
+      const sets = Math.min(...Array.from(uses, ([l, n]) => Math.floor(qty(l) / n)));
+      if (sets > 0 && (!best || sets > best.sets)) best = { lines: [...picked], sets };
+      return;
+    }
+    const i = order[k];
+    for (const l of candidates[i]) {
+      const n = (uses.get(l) || 0) + 1;
+      if (n > qty(l)) continue;
+      uses.set(l, n); picked[i] = l;
+      search(k + 1);
+      if (n === 1) uses.delete(l); else uses.set(l, n - 1);
+    }
+  };
+  search(0);
+  return best;
+}
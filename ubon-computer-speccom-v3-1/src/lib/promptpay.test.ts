@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { crc16, promptPayPayload, promptPayTarget, qrSvg } from "./promptpay";
+
+describe("crc16", () => {
+  it("matches the CRC-16/CCITT-FALSE check value", () => {
+    expect(crc16("123456789")).toBe("29B1");
+  });
+});
+
+describe("promptPayTarget", () => {
+  it("normalises phone numbers to 0066 + 9 digits", () => {
+    expect(promptPayTarget("081-234-5678")).toEqual({ kind: "phone", value: "0066812345678" });
+  });
+
+  it("accepts tax IDs and e-wallet ids", () => {
+    expect(promptPayTarget("1 2345 67890 12 3")).toEqual({ kind: "taxId", value: "1234567890123" });
+    expect(promptPayTarget("004999000288505")).toEqual({ kind: "ewallet", value: "004999000288505" });
+  });
+
+  it("rejects anything else", () => {
+    expect(promptPayTarget("")).toBeNull();
+    expect(promptPayTarget("12345")).toBeNull();
+    expect(promptPayTarget("1812345678")).toBeNull();
+  });
+});
+
+// Reference payloads from the widely used promptpay-qr generator
+describe("promptPayPayload", () => {
+  it("builds a static QR without an amount", () => {
+    expect(promptPayPayload("0801234567")).toBe("00020101021129370016A000000677010111011300668012345675802TH530376463046197");
+    expect(promptPayPayload("1111111111111")).toBe("00020101021129370016A000000677010111021311111111111115802TH530376463047B5A");
+    expect(promptPayPayload("004999000288505")).toBe("00020101021129390016A00000067701011103150049990002885055802TH530376463041521");
+  });
+
+  it("builds a dynamic QR with the exact amount", () => {
+    expect(promptPayPayload("0801234567", 4.22)).toBe("00020101021229370016A000000677010111011300668012345675802TH530376454044.22630444FE");
+    expect(promptPayPayload("1234567890123", 15900)).toBe("00020101021229370016A000000677010111021312345678901235802TH5303764540815900.006304D0EE");
+    expect(promptPayPayload("081-234-5678", 20674.47)).toBe("00020101021229370016A000000677010111011300668123456785802TH5303764540820674.4763044895");
+  });
+
+  it("treats a zero amount as static", () => {
+    expect(promptPayPayload("0801234567", 0)).toBe(promptPayPayload("0801234567"));
+  });
+
+  it("throws on an invalid id", () => {
+    expect(() => promptPayPayload("12345", 100)).toThrow();
+  });
+});
+
+describe("qrSvg", () => {
+  it("renders an svg with a quiet zone", () => {
+    const svg = qrSvg(promptPayPayload("0801234567", 4.22), 160);
+    expect(svg).toMatch(/^<svg [^>]*width="160"/);
+    expect(svg).toContain('<path d="M4 4h1v1h-1z');
+  });
+});
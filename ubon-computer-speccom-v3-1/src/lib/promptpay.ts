@@ -0,0 +1,57 @@
+/**
+ * PromptPay QR payloads (EMVCo merchant-presented QR, Thai QR Payment standard) — pure, no React.
+ * The payload is a list of tag / length / value fields closed by a CRC-16/CCITT checksum (tag 63).
+ * With an amount the QR is "dynamic" (01 = 12) and banking apps fill in the exact amount.
+ */
+import { create } from "qrcode";
+import { toSatang } from "./pricing";
+
+const PROMPTPAY_AID = "A000000677010111";
+const ACCOUNT_TAG = { phone: "01", taxId: "02", ewallet: "03" } as const;
+export type PromptPayTarget = { kind: keyof typeof ACCOUNT_TAG; value: string };
+
+// Phone numbers go in as 0066 + number without the leading 0, padded to 13 digits
+export function promptPayTarget(id: string): PromptPayTarget | null {
+  const digits = id.replace(/\D/g, "");
+  if (/^0\d{9}$/.test(digits)) return { kind: "phone", value: ("0000000000000" + "66" + digits.slice(1)).slice(-13) };
+  if (/^\d{13}$/.test(digits)) return { kind: "taxId", value: digits };
+  if (/^\d{15}$/.test(digits)) return { kind: "ewallet", value: digits };
+  return null;
+}
+
+const field = (tag: string, value: string) => tag + String(value.length).padStart(2, "0") + value;
+
+// CRC-16/CCITT-FALSE: poly 0x1021, init 0xFFFF, over the payload including "6304"
+export function crc16(text: string): string {
+  let crc = 0xffff;
+  for (let i = 0; i < text.length; i++) {
+    crc ^= text.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+  }
+  return crc.toString(16).toUpperCase().padStart(4, "0");
+}
+
+// Throws on an id that is not a phone number, tax ID or e-wallet id; amount 0 / missing makes a static QR
+export function promptPayPayload(id: string, amount?: number): string {
+  const target = promptPayTarget(id);
+  if (!target) throw new Error(`รหัสพร้อมเพย์ไม่ถูกต้อง: ${id}`);
+  const satang = amount ? toSatang(amount) : 0;
+  const body = [
+    field("00", "01"),
+    field("01", satang > 0 ? "12" : "11"),
+    field("29", field("00", PROMPTPAY_AID) + field(ACCOUNT_TAG[target.kind], target.value)),
+    field("58", "TH"),
+    field("53", "764"),
+    satang > 0 ? field("54", (satang / 100).toFixed(2)) : "",
+  ].join("") + "6304";
+  return body + crc16(body);
+}
+
+// One <path> of 1×1 squares with a 4-module quiet zone; a string so print windows can embed it as-is
+export function qrSvg(text: string, size = 200): string {
+  const { modules } = create(text, { errorCorrectionLevel: "M" });
+  const n = modules.size, view = n + 8;
+  let d = "";
+  for (let r = 0; r < n; r++) for (let c = 0; c < n; c++) if (modules.get(r, c)) d += `M${c + 4} ${r + 4}h1v1h-1z`;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${view} ${view}" shape-rendering="crispEdges"><rect width="${view}" height="${view}" fill="#fff"/><path d="${d}" fill="#000"/></svg>`;
+}